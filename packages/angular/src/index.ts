@@ -1 +1,7 @@
-export { KawarpComponent, type KawarpOptions } from "./lib/kawarp.component";
+export {
+  KawarpComponent,
+  type KawarpLoadOptions,
+  type KawarpOptions,
+  type KawarpPalette,
+  type KawarpVideoOptions,
+} from "./lib/kawarp.component";
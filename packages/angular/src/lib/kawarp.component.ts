@@ -12,11 +12,29 @@ import {
   viewChild,
 } from "@angular/core";
 import { toSignal } from "@angular/core/rxjs-interop";
-import { Kawarp, type KawarpOptions } from "@kawarp/core";
+import {
+  Kawarp,
+  type KawarpBlurAlgorithm,
+  type KawarpCrop,
+  type KawarpEasing,
+  type KawarpFit,
+  type KawarpLoadOptions,
+  type KawarpMotion,
+  type KawarpOptions,
+  type KawarpPalette,
+  type KawarpTransition,
+  type KawarpVideoOptions,
+  type KawarpVignetteShape,
+} from "@kawarp/core";
 import { EMPTY, Subject, from } from "rxjs";
 import { catchError, switchMap, tap } from "rxjs/operators";
 
-export type { KawarpOptions } from "@kawarp/core";
+export type {
+  KawarpLoadOptions,
+  KawarpOptions,
+  KawarpPalette,
+  KawarpVideoOptions,
+} from "@kawarp/core";
 
 @Component({
   selector: "kawarp-background",
@@ -76,10 +94,29 @@ export class KawarpComponent {
   readonly tintIntensity = input<number>();
   readonly dithering = input<number>();
   readonly scale = input<number>();
+  readonly blurAlgorithm = input<KawarpBlurAlgorithm>();
+  readonly blurResolution = input<number>();
+  readonly fit = input<KawarpFit>();
+  readonly focalPoint = input<[number, number]>();
+  readonly crop = input<KawarpCrop | null>();
+  readonly vignetteIntensity = input<number>();
+  readonly vignetteRadius = input<number>();
+  readonly vignetteSoftness = input<number>();
+  readonly vignetteColor = input<[number, number, number]>();
+  readonly vignetteShape = input<KawarpVignetteShape>();
+  readonly vignetteCenter = input<[number, number]>();
+  readonly transition = input<KawarpTransition>();
+  readonly transitionEasing = input<KawarpEasing>();
+  readonly seed = input<number>();
+  readonly motion = input<KawarpMotion>();
 
   // Signal outputs
   readonly loaded = output<void>();
   readonly errored = output<Error>();
+  readonly contextLost = output<void>();
+  readonly contextRestored = output<void>();
+  readonly streamEnded = output<void>();
+  readonly paletteChanged = output<KawarpPalette>();
 
   // Internal state
   private kawarp: Kawarp | null = null;
@@ -109,6 +146,43 @@ export class KawarpComponent {
     }),
     ...(this.dithering() !== undefined && { dithering: this.dithering() }),
     ...(this.scale() !== undefined && { scale: this.scale() }),
+    ...(this.blurAlgorithm() !== undefined && {
+      blurAlgorithm: this.blurAlgorithm(),
+    }),
+    ...(this.blurResolution() !== undefined && {
+      blurResolution: this.blurResolution(),
+    }),
+    ...(this.fit() !== undefined && { fit: this.fit() }),
+    ...(this.focalPoint() !== undefined && {
+      focalPoint: this.focalPoint(),
+    }),
+    ...(this.crop() !== undefined && { crop: this.crop() }),
+    ...(this.vignetteIntensity() !== undefined && {
+      vignetteIntensity: this.vignetteIntensity(),
+    }),
+    ...(this.vignetteRadius() !== undefined && {
+      vignetteRadius: this.vignetteRadius(),
+    }),
+    ...(this.vignetteSoftness() !== undefined && {
+      vignetteSoftness: this.vignetteSoftness(),
+    }),
+    ...(this.vignetteColor() !== undefined && {
+      vignetteColor: this.vignetteColor(),
+    }),
+    ...(this.vignetteShape() !== undefined && {
+      vignetteShape: this.vignetteShape(),
+    }),
+    ...(this.vignetteCenter() !== undefined && {
+      vignetteCenter: this.vignetteCenter(),
+    }),
+    ...(this.transition() !== undefined && {
+      transition: this.transition(),
+    }),
+    ...(this.transitionEasing() !== undefined && {
+      transitionEasing: this.transitionEasing(),
+    }),
+    ...(this.seed() !== undefined && { seed: this.seed() }),
+    ...(this.motion() !== undefined && { motion: this.motion() }),
   }));
 
   constructor() {
@@ -155,6 +229,12 @@ export class KawarpComponent {
     const container = this.containerRef().nativeElement;
 
     this.kawarp = new Kawarp(canvas, this.options());
+    this.kawarp.on("contextlost", () => this.contextLost.emit());
+    this.kawarp.on("contextrestored", () => this.contextRestored.emit());
+    this.kawarp.on("streamend", () => this.streamEnded.emit());
+    this.kawarp.on("palettechange", (palette) =>
+      this.paletteChanged.emit(palette)
+    );
     this.setupResizeObserver(container, canvas);
 
     const src = this.src();
@@ -206,10 +286,43 @@ export class KawarpComponent {
   }
 
   // Public API
-  readonly loadImage = async (url: string): Promise<void> => {
+  readonly loadImage = async (
+    url: string,
+    options?: KawarpLoadOptions
+  ): Promise<void> => {
     if (!this.kawarp) return;
     this.currentSrc = url;
-    const promise = this.kawarp.loadImage(url);
+    const promise = this.kawarp.loadImage(url, options);
+    this.loadRequest$.next({
+      promise,
+      autoPlay: false,
+      emitError: true,
+    });
+    return promise;
+  };
+
+  readonly loadBlob = async (
+    blob: Blob,
+    options?: KawarpLoadOptions
+  ): Promise<void> => {
+    if (!this.kawarp) return;
+    this.currentSrc = undefined;
+    const promise = this.kawarp.loadBlob(blob, options);
+    this.loadRequest$.next({
+      promise,
+      autoPlay: false,
+      emitError: true,
+    });
+    return promise;
+  };
+
+  readonly loadVideo = async (
+    video: HTMLVideoElement,
+    options?: KawarpVideoOptions
+  ): Promise<void> => {
+    if (!this.kawarp) return;
+    this.currentSrc = undefined;
+    const promise = this.kawarp.loadVideo(video, options);
     this.loadRequest$.next({
       promise,
       autoPlay: false,
@@ -218,10 +331,13 @@ export class KawarpComponent {
     return promise;
   };
 
-  readonly loadBlob = async (blob: Blob): Promise<void> => {
+  readonly loadStream = async (
+    stream: MediaStream,
+    options?: KawarpVideoOptions
+  ): Promise<void> => {
     if (!this.kawarp) return;
     this.currentSrc = undefined;
-    const promise = this.kawarp.loadBlob(blob);
+    const promise = this.kawarp.loadStream(stream, options);
     this.loadRequest$.next({
       promise,
       autoPlay: false,
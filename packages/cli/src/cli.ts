@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import { parseArgs } from "node:util";
+import { optionFlags, parseNumber, parseSize, readOptions } from "./options.js";
+import { renderFrames, renderPoster } from "./render.js";
+
+const USAGE = `Usage:
+  kawarp render <input> -o <file> [--size 1200x630] [--time 0] [options]
+  kawarp frames <input> -o <dir> [--size 1280x720] [--fps 30] [--seconds 5]
+                [--time 0] [--format png] [options]
+
+Options:
+  -o, --output <path>      Output file (render) or directory (frames)
+  --size <WxH>             Output size in pixels
+  --time <seconds>         Animation time of the (first) frame
+  --fps <n>                Frames per second (frames)
+  --seconds <n>            Length of the sequence (frames)
+  --format <ext>           Frame image format: png, jpg, webp (frames)
+  --preset <file.json>     Kawarp options as JSON, overridden by flags
+  --<option> <value>       Any Kawarp option in kebab-case, e.g.
+                           --warp-intensity 0.8 --tint-color 0.2,0.1,0.3
+  -h, --help               Show this help
+`;
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      size: { type: "string" },
+      time: { type: "string", default: "0" },
+      fps: { type: "string", default: "30" },
+      seconds: { type: "string", default: "5" },
+      format: { type: "string", default: "png" },
+      preset: { type: "string" },
+      help: { type: "boolean", short: "h" },
+      ...optionFlags(),
+    },
+  });
+
+  const [command, input] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return;
+  }
+  if (command !== "render" && command !== "frames") {
+    throw new Error(`Unknown command "${command}"`);
+  }
+  if (!input) throw new Error(`kawarp ${command} needs an input image`);
+  if (!values.output) throw new Error(`kawarp ${command} needs -o <path>`);
+
+  const options = await readOptions(values, values.preset);
+  const time = parseNumber("time", values.time);
+
+  if (command === "render") {
+    const [width, height] = parseSize(values.size ?? "1200x630");
+    await renderPoster(input, values.output, { width, height, time, options });
+    return;
+  }
+
+  const [width, height] = parseSize(values.size ?? "1280x720");
+  const count = await renderFrames(input, values.output, {
+    width,
+    height,
+    time,
+    options,
+    fps: parseNumber("fps", values.fps),
+    seconds: parseNumber("seconds", values.seconds),
+    format: values.format,
+  });
+  process.stdout.write(`Wrote ${count} frames to ${values.output}\n`);
+}
+
+main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  process.stderr.write(`kawarp: ${message}\n`);
+  process.exitCode = 1;
+});
@@ -0,0 +1,118 @@
+import { readFile } from "node:fs/promises";
+import type { KawarpCrop, KawarpOptions } from "@kawarp/core";
+
+type FlagKind = "number" | "string" | "vector" | "crop";
+
+// Options that shape a still frame, settable as kebab-case flags. The
+// transition options are left out since every render starts fully loaded.
+const OPTION_FLAGS = {
+  warpIntensity: "number",
+  blurPasses: "number",
+  animationSpeed: "number",
+  saturation: "number",
+  tintColor: "vector",
+  tintIntensity: "number",
+  dithering: "number",
+  scale: "number",
+  blurAlgorithm: "string",
+  blurResolution: "number",
+  fit: "string",
+  focalPoint: "vector",
+  crop: "crop",
+  vignetteIntensity: "number",
+  vignetteRadius: "number",
+  vignetteSoftness: "number",
+  vignetteColor: "vector",
+  vignetteShape: "string",
+  vignetteCenter: "vector",
+  seed: "number",
+} satisfies Partial<Record<keyof KawarpOptions, FlagKind>>;
+
+type OptionName = keyof typeof OPTION_FLAGS;
+
+/**
+ * Flag name of an option, e.g. `warpIntensity` → `warp-intensity`
+ */
+export function flagName(option: string): string {
+  return option.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`);
+}
+
+/**
+ * `parseArgs` declarations for every option flag
+ */
+export function optionFlags(): Record<string, { type: "string" }> {
+  return Object.fromEntries(
+    Object.keys(OPTION_FLAGS).map((option) => [
+      flagName(option),
+      { type: "string" },
+    ]),
+  );
+}
+
+/**
+ * Kawarp options from a JSON preset file, overridden by any option flags
+ */
+export async function readOptions(
+  values: Record<string, unknown>,
+  preset?: string,
+): Promise<KawarpOptions> {
+  const options: KawarpOptions = preset
+    ? JSON.parse(await readFile(preset, "utf8"))
+    : {};
+
+  for (const [option, kind] of Object.entries(OPTION_FLAGS)) {
+    const flag = flagName(option);
+    const value = values[flag];
+    if (typeof value !== "string") continue;
+    Object.assign(options, {
+      [option as OptionName]: parseValue(flag, kind, value),
+    });
+  }
+  return options;
+}
+
+/**
+ * Parse a `WIDTHxHEIGHT` size such as `1200x630`
+ */
+export function parseSize(value: string): [number, number] {
+  const match = /^(\d+)x(\d+)$/.exec(value);
+  if (!match) throw new Error(`--size expects WIDTHxHEIGHT, got "${value}"`);
+  const width = Number(match[1]);
+  const height = Number(match[2]);
+  if (width < 1 || height < 1) throw new Error("--size must be at least 1x1");
+  return [width, height];
+}
+
+/**
+ * Parse a flag that takes a number
+ */
+export function parseNumber(flag: string, value: string): number {
+  const number = Number(value);
+  if (value.trim() === "" || !Number.isFinite(number)) {
+    throw new Error(`--${flag} expects a number, got "${value}"`);
+  }
+  return number;
+}
+
+function parseValue(
+  flag: string,
+  kind: FlagKind,
+  value: string,
+): number | string | number[] | KawarpCrop {
+  switch (kind) {
+    case "number":
+      return parseNumber(flag, value);
+    case "string":
+      return value;
+    case "vector":
+      return value.split(",").map((part) => parseNumber(flag, part));
+    case "crop": {
+      const parts = value.split(",").map((part) => parseNumber(flag, part));
+      if (parts.length !== 4) {
+        throw new Error(`--${flag} expects x,y,width,height, got "${value}"`);
+      }
+      const [x, y, width, height] = parts as [number, number, number, number];
+      return { x, y, width, height };
+    }
+  }
+}
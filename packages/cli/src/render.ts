@@ -0,0 +1,88 @@
+import { mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import { Kawarp, type KawarpOptions, type KawarpPixels } from "@kawarp/core";
+import sharp from "sharp";
+
+export interface PosterOptions {
+  width: number;
+  height: number;
+  /** Animation time in seconds */
+  time: number;
+  options: KawarpOptions;
+}
+
+export interface FramesOptions extends PosterOptions {
+  fps: number;
+  seconds: number;
+  /** Image format of each frame, like "png" or "jpg" */
+  format: string;
+}
+
+/**
+ * Render one frame of `input` to `output`, in the format of its extension
+ */
+export async function renderPoster(
+  input: string,
+  output: string,
+  { width, height, time, options }: PosterOptions,
+): Promise<void> {
+  const kawarp = await createKawarp(input, width, height, options);
+  kawarp.renderFrame(time);
+  await writePixels(kawarp.readPixels({ width, height }), output);
+  kawarp.dispose();
+}
+
+/**
+ * Render `seconds` of animation from `time` into numbered files in
+ * `directory`. Each frame is drawn at an explicit animation time, `1 / fps`
+ * seconds apart at the `animationSpeed`, so the same flags always give the
+ * same frames. Returns the number of frames.
+ */
+export async function renderFrames(
+  input: string,
+  directory: string,
+  { width, height, time, options, fps, seconds, format }: FramesOptions,
+): Promise<number> {
+  const kawarp = await createKawarp(input, width, height, options);
+  await mkdir(directory, { recursive: true });
+
+  const count = Math.max(1, Math.round(seconds * fps));
+  for (let i = 0; i < count; i++) {
+    kawarp.renderFrame(time + (i / fps) * kawarp.animationSpeed);
+    const name = `frame-${String(i + 1).padStart(5, "0")}.${format}`;
+    await writePixels(
+      kawarp.readPixels({ width, height }),
+      join(directory, name),
+    );
+  }
+  kawarp.dispose();
+  return count;
+}
+
+/**
+ * Software-rendered instance with `input` loaded and no transition running.
+ * The source is fitted to the output size, which readPixels() renders at.
+ */
+async function createKawarp(
+  input: string,
+  width: number,
+  height: number,
+  options: KawarpOptions,
+): Promise<Kawarp> {
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Without a DOM, the CPU backend keeps frames in memory
+  const kawarp = new Kawarp({ width, height }, { ...options, backend: "cpu" });
+  kawarp.loadImageData(data, info.width, info.height, {
+    transitionDuration: 0,
+  });
+  return kawarp;
+}
+
+function writePixels(pixels: KawarpPixels, output: string): Promise<unknown> {
+  const { width, height, data } = pixels;
+  return sharp(data, { raw: { width, height, channels: 4 } }).toFile(output);
+}
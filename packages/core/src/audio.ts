@@ -0,0 +1,130 @@
+import type {
+  KawarpAudioBand,
+  KawarpAudioMapping,
+  KawarpAudioSource,
+  KawarpAudioTarget,
+} from "./types.js";
+
+// Onsets closer together than this are merged
+const ONSET_INTERVAL = 100;
+
+// Energy below this is treated as silence and never counts as an onset
+const ONSET_FLOOR = 0.05;
+
+// Time constant of the average onsets are measured against, in ms
+const ONSET_AVERAGE_TIME = 1000;
+
+// Used when connectAudio maps no option
+export const DEFAULT_AUDIO_MAPPING: KawarpAudioMapping = {
+  warpIntensity: { band: "bass", range: [0.6, 1] },
+  animationSpeed: { band: "energy", range: [0.8, 1.6] },
+};
+
+/**
+ * Reads an analyser every frame and turns its spectrum into smoothed band
+ * levels, an onset detector and modulated option values
+ */
+export class AudioReactor {
+  private source: KawarpAudioSource;
+  private mapping: KawarpAudioMapping;
+  private spectrum: Uint8Array;
+
+  // First bin of the mid and treble bands
+  private midStart: number;
+  private trebleStart: number;
+
+  private levels: Record<KawarpAudioBand, number> = {
+    bass: 0,
+    mid: 0,
+    treble: 0,
+    energy: 0,
+    onset: 0,
+  };
+  private averageEnergy = 0;
+  private lastUpdate: number | null = null;
+  private lastOnset = -Infinity;
+
+  constructor(source: KawarpAudioSource, mapping: KawarpAudioMapping) {
+    this.source = source;
+    this.mapping = mapping;
+    this.spectrum = new Uint8Array(source.frequencyBinCount);
+
+    const [bassEdge, trebleEdge] = mapping.crossover ?? [250, 4000];
+    const binWidth =
+      source.context.sampleRate / 2 / Math.max(1, source.frequencyBinCount);
+    this.midStart = Math.max(1, Math.round(bassEdge / binWidth));
+    this.trebleStart = Math.max(
+      this.midStart + 1,
+      Math.round(trebleEdge / binWidth),
+    );
+  }
+
+  /**
+   * Read the analyser and move the levels toward it by the time since the
+   * last update. Returns the onset strength, or 0 when there was none.
+   */
+  update(now: number): number {
+    const first = this.lastUpdate === null;
+    const dt = first ? 0 : Math.max(0, now - this.lastUpdate!);
+    this.lastUpdate = now;
+
+    const spectrum = this.spectrum;
+    this.source.getByteFrequencyData(spectrum);
+    const bass = bandLevel(spectrum, 0, this.midStart);
+    const mid = bandLevel(spectrum, this.midStart, this.trebleStart);
+    const treble = bandLevel(spectrum, this.trebleStart, spectrum.length);
+    const energy = bandLevel(spectrum, 0, spectrum.length);
+
+    const attack = this.mapping.attack ?? 30;
+    const release = this.mapping.release ?? 250;
+    const smooth = (band: KawarpAudioBand, target: number) => {
+      const current = this.levels[band];
+      const time = target > current ? attack : release;
+      const amount = time > 0 ? 1 - Math.exp(-dt / time) : 1;
+      this.levels[band] = current + (target - current) * amount;
+    };
+    smooth("bass", bass);
+    smooth("mid", mid);
+    smooth("treble", treble);
+    smooth("energy", energy);
+    smooth("onset", 0);
+
+    // An onset is raw energy jumping well above its slow average, which
+    // starts at the first reading so connecting mid-song isn't one
+    if (first) this.averageEnergy = energy;
+    const threshold = this.mapping.onsetThreshold ?? 1.5;
+    const strength = energy / Math.max(this.averageEnergy, 1e-3);
+    let onset = 0;
+    if (
+      energy > ONSET_FLOOR &&
+      strength > threshold &&
+      now - this.lastOnset > ONSET_INTERVAL
+    ) {
+      this.lastOnset = now;
+      this.levels.onset = 1;
+      onset = strength;
+    }
+    this.averageEnergy +=
+      (energy - this.averageEnergy) * (1 - Math.exp(-dt / ONSET_AVERAGE_TIME));
+
+    return onset;
+  }
+
+  /**
+   * Option value for the current levels, or `value` when the option isn't
+   * mapped
+   */
+  modulate(target: KawarpAudioTarget, value: number): number {
+    const modulation = this.mapping[target];
+    if (!modulation) return value;
+    const [min, max] = modulation.range;
+    return min + (max - min) * this.levels[modulation.band];
+  }
+}
+
+function bandLevel(spectrum: Uint8Array, start: number, end: number): number {
+  if (end <= start) return 0;
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += spectrum[i]!;
+  return sum / (end - start) / 255;
+}
@@ -0,0 +1,57 @@
+import type { KawarpEasing } from "./types.js";
+
+// Control points of the CSS named timing functions
+const NAMED_CURVES: Record<
+  Exclude<KawarpEasing, readonly number[]>,
+  [number, number, number, number] | null
+> = {
+  linear: null,
+  ease: [0.25, 0.1, 0.25, 1],
+  "ease-in": [0.42, 0, 1, 1],
+  "ease-out": [0, 0, 0.58, 1],
+  "ease-in-out": [0.42, 0, 0.58, 1],
+};
+
+/**
+ * Turn a named curve or cubic-bezier control points into a function mapping
+ * linear progress (0-1) to eased progress, like CSS `transition-timing-function`
+ */
+export function createEasing(easing: KawarpEasing): (t: number) => number {
+  const curve = typeof easing === "string" ? NAMED_CURVES[easing] : easing;
+  if (!curve) return (t) => t;
+
+  const [x1, y1, x2, y2] = curve;
+  const bezier = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  const slope = (t: number, p1: number, p2: number) =>
+    3 * (1 - t) * (1 - t) * p1 +
+    6 * (1 - t) * t * (p2 - p1) +
+    3 * t * t * (1 - p2);
+
+  return (x) => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+
+    // Solve bezier(t) = x with Newton's method, falling back to bisection
+    let t = x;
+    for (let i = 0; i < 8; i++) {
+      const error = bezier(t, x1, x2) - x;
+      if (Math.abs(error) < 1e-6) return bezier(t, y1, y2);
+      const derivative = slope(t, x1, x2);
+      if (Math.abs(derivative) < 1e-6) break;
+      t -= error / derivative;
+    }
+
+    let low = 0;
+    let high = 1;
+    t = x;
+    for (let i = 0; i < 32; i++) {
+      const value = bezier(t, x1, x2);
+      if (Math.abs(value - x) < 1e-6) break;
+      if (value < x) low = t;
+      else high = t;
+      t = (low + high) / 2;
+    }
+    return bezier(t, y1, y2);
+  };
+}
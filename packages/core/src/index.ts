@@ -2,7 +2,8 @@
  * Kawarp - Fluid Animated Background Renderer
  *
  * Creates a fluid, animated background effect similar to Apple Music's album art visualization.
- * Uses WebGL with Kawase blur and domain warping techniques.
+ * Uses WebGPU or WebGL (WebGL2 with a WebGL1 fallback) with Kawase blur and domain warping techniques,
+ * with a software renderer for environments without either.
  *
  * Optimized architecture:
  * - Blur runs on small textures (128x128) only when image changes
@@ -10,233 +11,225 @@
  * - Per-frame work is minimal: just blend + warp + output
  */
 
-export interface KawarpOptions {
-  warpIntensity?: number;
-  blurPasses?: number;
-  animationSpeed?: number;
-  transitionDuration?: number;
-  saturation?: number;
-  tintColor?: [number, number, number];
-  tintIntensity?: number;
-  dithering?: number;
-  scale?: number;
+import { AudioReactor, DEFAULT_AUDIO_MAPPING } from "./audio.js";
+import { createEasing } from "./easing.js";
+import { extractPalette } from "./palette.js";
+import { CPURenderer } from "./renderers/cpu.js";
+import {
+  BLUR_SIZE,
+  type BlurParams,
+  type FrameParams,
+  type Renderer,
+} from "./renderers/renderer.js";
+import { WebGLRenderer } from "./renderers/webgl.js";
+import { WebGPURenderer } from "./renderers/webgpu.js";
+import type {
+  KawarpAudioMapping,
+  KawarpAudioSource,
+  KawarpAudioTarget,
+  KawarpBackend,
+  KawarpBlurAlgorithm,
+  KawarpCanvas,
+  KawarpCrop,
+  KawarpEasing,
+  KawarpEvents,
+  KawarpFit,
+  KawarpHeadlessCanvas,
+  KawarpInitOptions,
+  KawarpLoadOptions,
+  KawarpMotion,
+  KawarpOptions,
+  KawarpPalette,
+  KawarpPaletteOptions,
+  KawarpPass,
+  KawarpPassOptions,
+  KawarpPixels,
+  KawarpPulseOptions,
+  KawarpRecordOptions,
+  KawarpSnapshotOptions,
+  KawarpTempoOptions,
+  KawarpTransition,
+  KawarpTweenOptions,
+  KawarpUniforms,
+  KawarpVideoOptions,
+  KawarpVignetteShape,
+} from "./types.js";
+import {
+  createCanvas,
+  encodePixels,
+  fitSource,
+  getSourceSize,
+  resizeSource,
+} from "./utils.js";
+
+export { applyPaletteVariables } from "./palette.js";
+export type { KawarpWorkerOptions } from "./proxy.js";
+export { KawarpProxy } from "./proxy.js";
+export type {
+  KawarpAudioBand,
+  KawarpAudioMapping,
+  KawarpAudioModulation,
+  KawarpAudioSource,
+  KawarpAudioTarget,
+  KawarpBackend,
+  KawarpBackendPreference,
+  KawarpBlurAlgorithm,
+  KawarpCanvas,
+  KawarpCrop,
+  KawarpEasing,
+  KawarpEvents,
+  KawarpFit,
+  KawarpHeadlessCanvas,
+  KawarpInitOptions,
+  KawarpLoadOptions,
+  KawarpMotion,
+  KawarpOptions,
+  KawarpPalette,
+  KawarpPaletteOptions,
+  KawarpPass,
+  KawarpPassOptions,
+  KawarpPassStage,
+  KawarpPixels,
+  KawarpPlaceholder,
+  KawarpPulseOptions,
+  KawarpRecordOptions,
+  KawarpSnapshotOptions,
+  KawarpTempoOptions,
+  KawarpTransition,
+  KawarpTweenOptions,
+  KawarpUniforms,
+  KawarpUniformValue,
+  KawarpVideoOptions,
+  KawarpVignetteShape,
+} from "./types.js";
+
+// Decoded image or raw RGBA pixels last uploaded as the source
+type SourceImage =
+  | TexImageSource
+  | { pixels: Uint8Array; width: number; height: number };
+
+type Listener = (...args: never[]) => void;
+
+// Devices requested by Kawarp.create() are destroyed with the instance
+const ownedDevices = new WeakSet<GPUDevice>();
+
+// Options setOptions interpolates. The others either re-blur, and crossfade to
+// the new blur, or have nothing in between and apply at once.
+const TWEENED_OPTIONS = [
+  "warpIntensity",
+  "animationSpeed",
+  "saturation",
+  "dithering",
+  "scale",
+  "vignetteIntensity",
+  "vignetteRadius",
+  "vignetteSoftness",
+  "vignetteColor",
+  "vignetteCenter",
+] as const;
+
+type TweenedOption = (typeof TWEENED_OPTIONS)[number];
+
+interface OptionTween {
+  from: number[];
+  start: number;
+  duration: number;
+  easing: (t: number) => number;
 }
 
-interface Framebuffer {
-  framebuffer: WebGLFramebuffer;
-  texture: WebGLTexture;
+// Animation speed and warp of each motion mode, as fractions of the options
+const MOTION_SCALES: Record<
+  Exclude<KawarpMotion, "auto">,
+  { speed: number; warp: number }
+> = {
+  full: { speed: 1, warp: 1 },
+  reduced: { speed: 0.15, warp: 0 },
+  none: { speed: 0, warp: 1 },
+};
+
+// Peak warp multiplier of the "warp-through" transition, on top of 1x
+const WARP_THROUGH_BOOST = 3;
+
+// Warp and scale added by a pulse of strength 1, as fractions of the value
+const PULSE_WARP = 0.5;
+const PULSE_SCALE = 0.04;
+
+// Rise time of a pulse in ms, so it swells instead of snapping
+const PULSE_ATTACK = 30;
+
+interface Pulse {
+  start: number;
+  strength: number;
+  decay: number;
 }
 
-// Size for blur operations (small = fast)
-const BLUR_SIZE = 128;
-
-const VERTEX_SHADER = `
-  attribute vec2 a_position;
-  attribute vec2 a_texCoord;
-  varying vec2 v_texCoord;
-  void main() {
-    gl_Position = vec4(a_position, 0.0, 1.0);
-    v_texCoord = a_texCoord;
-  }
-`;
-
-const KAWASE_BLUR_SHADER = `
-  precision highp float;
-  uniform sampler2D u_texture;
-  uniform vec2 u_resolution;
-  uniform float u_offset;
-  varying vec2 v_texCoord;
-
-  void main() {
-    highp vec2 texelSize = 1.0 / u_resolution;
-    highp vec4 color = vec4(0.0);
-
-    color += texture2D(u_texture, v_texCoord + vec2(-u_offset, -u_offset) * texelSize);
-    color += texture2D(u_texture, v_texCoord + vec2(u_offset, -u_offset) * texelSize);
-    color += texture2D(u_texture, v_texCoord + vec2(-u_offset, u_offset) * texelSize);
-    color += texture2D(u_texture, v_texCoord + vec2(u_offset, u_offset) * texelSize);
-
-    gl_FragColor = color * 0.25;
-  }
-`;
-
-// Blend shader for crossfading between two textures
-const BLEND_SHADER = `
-  precision highp float;
-  uniform sampler2D u_texture1;
-  uniform sampler2D u_texture2;
-  uniform float u_blend;
-  varying vec2 v_texCoord;
-
-  void main() {
-    vec4 color1 = texture2D(u_texture1, v_texCoord);
-    vec4 color2 = texture2D(u_texture2, v_texCoord);
-    gl_FragColor = mix(color1, color2, u_blend);
-  }
-`;
-
-// Tint shader - applies color to dark areas before blur
-const TINT_SHADER = `
-  precision highp float;
-  uniform sampler2D u_texture;
-  uniform vec3 u_tintColor;
-  uniform float u_tintIntensity;
-  varying vec2 v_texCoord;
-
-  void main() {
-    vec4 color = texture2D(u_texture, v_texCoord);
-    float luma = dot(color.rgb, vec3(0.299, 0.587, 0.114));
-
-    // darkMask: 1.0 for black, 0.0 for luma >= 0.5
-    float darkMask = 1.0 - smoothstep(0.0, 0.5, luma);
-
-    // Blend dark areas toward tint color
-    color.rgb = mix(color.rgb, u_tintColor, darkMask * u_tintIntensity);
-
-    gl_FragColor = color;
-  }
-`;
-
-const DOMAIN_WARP_SHADER = `
-  precision highp float;
-  uniform sampler2D u_texture;
-  uniform float u_time;
-  uniform float u_intensity;
-  varying vec2 v_texCoord;
-
-  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
-  vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
-  vec3 permute(vec3 x) { return mod289(((x*34.0)+1.0)*x); }
-
-  float snoise(vec2 v) {
-    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
-                        -0.577350269189626, 0.024390243902439);
-    vec2 i  = floor(v + dot(v, C.yy));
-    vec2 x0 = v - i + dot(i, C.xx);
-    vec2 i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
-    vec4 x12 = x0.xyxy + C.xxzz;
-    x12.xy -= i1;
-    i = mod289(i);
-    vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0)) + i.x + vec3(0.0, i1.x, 1.0));
-    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
-    m = m*m; m = m*m;
-    vec3 x = 2.0 * fract(p * C.www) - 1.0;
-    vec3 h = abs(x) - 0.5;
-    vec3 ox = floor(x + 0.5);
-    vec3 a0 = x - ox;
-    m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
-    vec3 g;
-    g.x = a0.x * x0.x + h.x * x0.y;
-    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
-    return 130.0 * dot(m, g);
-  }
-
-  void main() {
-    vec2 uv = v_texCoord;
-    float t = u_time * 0.05;
-
-    vec2 center = uv - 0.5;
-    float centerWeight = 1.0 - smoothstep(0.0, 0.7, length(center));
-
-    // Large-scale movement (slow, big blobs)
-    float n1 = snoise(uv * 0.35 + vec2(t, t * 0.7));
-    float n2 = snoise(uv * 0.35 + vec2(-t * 0.8, t * 0.5) + vec2(50.0, 50.0));
-
-    // Medium-scale detail (adds organic movement)
-    float n3 = snoise(uv * 0.9 + vec2(t * 1.2, -t) + vec2(100.0, 0.0));
-    float n4 = snoise(uv * 0.9 + vec2(-t, t * 1.1) + vec2(0.0, 100.0));
-
-    // Combine two octaves
-    vec2 warp = vec2(
-      n1 * 0.65 + n3 * 0.35,
-      n2 * 0.65 + n4 * 0.35
-    ) * centerWeight;
-
-    vec2 warpedUV = uv + warp * u_intensity;
-    warpedUV = clamp(warpedUV, 0.0, 1.0);
-
-    gl_FragColor = texture2D(u_texture, warpedUV);
-  }
-`;
-
-const OUTPUT_SHADER = `
-  precision highp float;
-  uniform sampler2D u_texture;
-  uniform float u_saturation;
-  uniform float u_dithering;
-  uniform float u_time;
-  uniform float u_scale;
-  uniform vec2 u_resolution;
-  varying vec2 v_texCoord;
-
-  highp float hash(highp vec3 p) {
-    p = fract(p * 0.1031);
-    p += dot(p, p.zyx + 31.32);
-    return fract((p.x + p.y) * p.z);
-  }
-
-  void main() {
-    vec2 uv = (v_texCoord - 0.5) / u_scale + 0.5;
-    uv = clamp(uv, 0.0, 1.0);
-
-    vec4 color = texture2D(u_texture, uv);
-
-    vec2 center = v_texCoord - 0.5;
-    float vignette = 1.0 - dot(center, center) * 0.3;
-    color.rgb *= vignette;
-
-    float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
-    color.rgb = mix(vec3(gray), color.rgb, u_saturation);
-
-    highp vec2 pixelPos = floor(v_texCoord * u_resolution);
-    highp float noise = hash(vec3(pixelPos, floor(u_time * 60.0)));
-    color.rgb += (noise - 0.5) * u_dithering;
-
-    gl_FragColor = color;
-  }
-`;
-
-export class Kawarp {
-  private canvas: HTMLCanvasElement;
-  private gl: WebGLRenderingContext;
-  private halfFloatExt: OES_texture_half_float | null = null;
-  private halfFloatLinearExt: OES_texture_half_float_linear | null = null;
-
-  // Shader programs
-  private blurProgram: WebGLProgram;
-  private blendProgram: WebGLProgram;
-  private tintProgram: WebGLProgram;
-  private warpProgram: WebGLProgram;
-  private outputProgram: WebGLProgram;
-
-  // Buffers
-  private positionBuffer: WebGLBuffer;
-  private texCoordBuffer: WebGLBuffer;
-
-  // Source texture (original image)
-  private sourceTexture: WebGLTexture;
+// Focal points are fractions of the source size
+function clampFocalPoint([x, y]: [number, number]): [number, number] {
+  return [Math.max(0, Math.min(1, x)), Math.max(0, Math.min(1, y))];
+}
 
-  // Small FBOs for blur (BLUR_SIZE x BLUR_SIZE)
-  private blurFBO1: Framebuffer;
-  private blurFBO2: Framebuffer;
+// Headless canvases only have a size
+function isCanvas(
+  canvas: KawarpCanvas | KawarpHeadlessCanvas,
+): canvas is KawarpCanvas {
+  return "getContext" in canvas;
+}
 
-  // Album FBOs for crossfade (BLUR_SIZE x BLUR_SIZE)
-  private currentAlbumFBO: Framebuffer;
-  private nextAlbumFBO: Framebuffer;
+// Blur buffer edge length in texels
+function clampBlurResolution(value: number): number {
+  return Math.max(32, Math.min(1024, Math.round(value)));
+}
 
-  // Full-res FBO for warp output
-  private warpFBO: Framebuffer;
+export class Kawarp {
+  private canvas: KawarpCanvas | KawarpHeadlessCanvas;
+  private renderer: Renderer;
 
   // Animation state
   private animationId: number | null = null;
-  private lastFrameTime: number = 0;
+  private lastFrameTime: number;
   private accumulatedTime: number = 0;
+  // Animation time of the last frame drawn, redrawn by snapshots
+  private frameTime = 0;
+  private hasRendered = false;
+
+  // Milliseconds for transitions, tweens and speed easing
+  private clock: () => number = () => performance.now();
   private isPlaying = false;
+  private isRecording = false;
+  // Whether playback resumes once the recording finishes
+  private playAfterRecording = false;
+
+  // Context loss state
+  private contextLost = false;
+  private resumeOnRestore = false;
 
   // Transition state
   private isTransitioning = false;
   private transitionStartTime = 0;
   private _transitionDuration: number;
+  private _transition: KawarpTransition;
+  private _transitionEasing: KawarpEasing;
+  private _seed: number;
+  private _motion: KawarpMotion;
+
+  // System reduced motion setting, followed live in "auto" motion
+  private reducedMotionQuery: MediaQueryList | null = null;
+
+  // Style, curve and length of the running transition, plus the warp boost
+  // it inherited from an interrupted one
+  private activeTransition = {
+    style: "crossfade" as KawarpTransition,
+    easing: (t: number) => t,
+    duration: 1000,
+    warpBoost: 0,
+  };
+
+  // Running setOptions tweens, from the value on screen to the option's value
+  private tweens = new Map<TweenedOption, OptionTween>();
+
+  // Set while setOptions applies a batch, so the image is re-blurred once
+  private batchingReblur = false;
+  private reblurPending = false;
 
   // Options
   private _warpIntensity: number;
@@ -248,138 +241,168 @@ export class Kawarp {
   private _tintIntensity: number;
   private _dithering: number;
   private _scale: number;
+  private _blurAlgorithm: KawarpBlurAlgorithm;
+  private _blurResolution: number;
+  private _fit: KawarpFit;
+  private _focalPoint: [number, number];
+  private _crop: KawarpCrop | null;
+  private _vignetteIntensity: number;
+  private _vignetteRadius: number;
+  private _vignetteSoftness: number;
+  private _vignetteColor: [number, number, number];
+  private _vignetteShape: KawarpVignetteShape;
+  private _vignetteCenter: [number, number];
   private hasImage = false;
 
-  // Cached attribute locations
-  private attribs!: {
-    position: number;
-    texCoord: number;
-  };
+  // Fitting of the current image: its size, per-load overrides and the
+  // canvas aspect ratio it was blurred for
+  private sourceSize: [number, number] = [1, 1];
+  private imageOptions: KawarpLoadOptions = {};
+  private aspect = 1;
 
-  // Cached uniform locations
-  private uniforms!: {
-    blur: {
-      resolution: WebGLUniformLocation;
-      texture: WebGLUniformLocation;
-      offset: WebGLUniformLocation;
-    };
-    blend: {
-      texture1: WebGLUniformLocation;
-      texture2: WebGLUniformLocation;
-      blend: WebGLUniformLocation;
-    };
-    warp: {
-      texture: WebGLUniformLocation;
-      time: WebGLUniformLocation;
-      intensity: WebGLUniformLocation;
-    };
-    tint: {
-      texture: WebGLUniformLocation;
-      tintColor: WebGLUniformLocation;
-      tintIntensity: WebGLUniformLocation;
-    };
-    output: {
-      texture: WebGLUniformLocation;
-      saturation: WebGLUniformLocation;
-      dithering: WebGLUniformLocation;
-      time: WebGLUniformLocation;
-      scale: WebGLUniformLocation;
-      resolution: WebGLUniformLocation;
-    };
-  };
+  // Kept to re-upload after a context loss
+  private source: SourceImage | null = null;
+  private ownedBitmap: ImageBitmap | null = null;
 
-  constructor(canvas: HTMLCanvasElement, options: KawarpOptions = {}) {
-    this.canvas = canvas;
+  // Video followed by loadVideo, and how to cancel its next frame callback
+  private video: HTMLVideoElement | null = null;
+  private cancelVideoFrame: (() => void) | null = null;
 
-    const gl = canvas.getContext("webgl", { preserveDrawingBuffer: true });
-    if (!gl) throw new Error("WebGL not supported");
-    this.gl = gl;
+  // Detaches the video element created by loadStream from its stream
+  private releaseStream: (() => void) | null = null;
 
-    this.halfFloatExt = gl.getExtension("OES_texture_half_float");
-    this.halfFloatLinearExt = gl.getExtension("OES_texture_half_float_linear");
+  // Analyser modulating options, set by connectAudio
+  private audio: AudioReactor | null = null;
+
+  // Pulse envelopes still fading, and the tempo scheduling new ones
+  private pulses: Pulse[] = [];
+  private tempo: (Pulse & { interval: number; lastBeat: number }) | null = null;
+
+  private listeners = new Map<keyof KawarpEvents, Set<Listener>>();
+
+  constructor(
+    canvas: KawarpCanvas | KawarpHeadlessCanvas,
+    options: KawarpInitOptions = {},
+  ) {
+    this.canvas = canvas;
+    this.renderer = this.createRenderer(options);
+    this.lastFrameTime = this.clock();
 
     this._warpIntensity = options.warpIntensity ?? 1.0;
     this._blurPasses = options.blurPasses ?? 8;
     this._animationSpeed = options.animationSpeed ?? 1.0;
     this._targetAnimationSpeed = this._animationSpeed;
     this._transitionDuration = options.transitionDuration ?? 1000;
+    this._transition = options.transition ?? "crossfade";
+    this._transitionEasing = options.transitionEasing ?? "linear";
+    this._seed = options.seed ?? 0;
+    this._motion = options.motion ?? "auto";
     this._saturation = options.saturation ?? 1.5;
     this._tintColor = options.tintColor ?? [0.157, 0.157, 0.235];
     this._tintIntensity = options.tintIntensity ?? 0.15;
     this._dithering = options.dithering ?? 0.008;
     this._scale = options.scale ?? 1.0;
+    this._blurAlgorithm = options.blurAlgorithm ?? "kawase";
+    this._blurResolution = clampBlurResolution(
+      options.blurResolution ?? BLUR_SIZE,
+    );
+    this._fit = options.fit ?? "cover";
+    this._focalPoint = clampFocalPoint(options.focalPoint ?? [0.5, 0.5]);
+    this._crop = options.crop ?? null;
+    this._vignetteIntensity = options.vignetteIntensity ?? 0.3;
+    this._vignetteRadius = options.vignetteRadius ?? 0;
+    this._vignetteSoftness = options.vignetteSoftness ?? 1;
+    this._vignetteColor = options.vignetteColor ?? [0, 0, 0];
+    this._vignetteShape = options.vignetteShape ?? "elliptical";
+    this._vignetteCenter = options.vignetteCenter ?? [0.5, 0.5];
 
-    // Create shader programs
-    this.blurProgram = this.createProgram(VERTEX_SHADER, KAWASE_BLUR_SHADER);
-    this.blendProgram = this.createProgram(VERTEX_SHADER, BLEND_SHADER);
-    this.tintProgram = this.createProgram(VERTEX_SHADER, TINT_SHADER);
-    this.warpProgram = this.createProgram(VERTEX_SHADER, DOMAIN_WARP_SHADER);
-    this.outputProgram = this.createProgram(VERTEX_SHADER, OUTPUT_SHADER);
-
-    // Cache attribute locations (same for all programs since they use same vertex shader)
-    this.attribs = {
-      position: gl.getAttribLocation(this.blurProgram, "a_position"),
-      texCoord: gl.getAttribLocation(this.blurProgram, "a_texCoord"),
-    };
+    this.resize();
 
-    // Cache uniform locations
-    this.uniforms = {
-      blur: {
-        resolution: gl.getUniformLocation(this.blurProgram, "u_resolution")!,
-        texture: gl.getUniformLocation(this.blurProgram, "u_texture")!,
-        offset: gl.getUniformLocation(this.blurProgram, "u_offset")!,
-      },
-      blend: {
-        texture1: gl.getUniformLocation(this.blendProgram, "u_texture1")!,
-        texture2: gl.getUniformLocation(this.blendProgram, "u_texture2")!,
-        blend: gl.getUniformLocation(this.blendProgram, "u_blend")!,
-      },
-      warp: {
-        texture: gl.getUniformLocation(this.warpProgram, "u_texture")!,
-        time: gl.getUniformLocation(this.warpProgram, "u_time")!,
-        intensity: gl.getUniformLocation(this.warpProgram, "u_intensity")!,
-      },
-      tint: {
-        texture: gl.getUniformLocation(this.tintProgram, "u_texture")!,
-        tintColor: gl.getUniformLocation(this.tintProgram, "u_tintColor")!,
-        tintIntensity: gl.getUniformLocation(
-          this.tintProgram,
-          "u_tintIntensity",
-        )!,
-      },
-      output: {
-        texture: gl.getUniformLocation(this.outputProgram, "u_texture")!,
-        saturation: gl.getUniformLocation(this.outputProgram, "u_saturation")!,
-        dithering: gl.getUniformLocation(this.outputProgram, "u_dithering")!,
-        time: gl.getUniformLocation(this.outputProgram, "u_time")!,
-        scale: gl.getUniformLocation(this.outputProgram, "u_scale")!,
-        resolution: gl.getUniformLocation(this.outputProgram, "u_resolution")!,
-      },
-    };
+    if (typeof matchMedia === "function") {
+      this.reducedMotionQuery = matchMedia("(prefers-reduced-motion: reduce)");
+      this.reducedMotionQuery.addEventListener(
+        "change",
+        this.handleMotionChange,
+      );
+    }
 
-    // Create buffers
-    this.positionBuffer = this.createBuffer(
-      new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
-    );
-    this.texCoordBuffer = this.createBuffer(
-      new Float32Array([0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1]),
-    );
+    // Only WebGL renderers can rebuild their resources after a context loss
+    if (this.renderer.restore && isCanvas(canvas)) {
+      canvas.addEventListener("webglcontextlost", this.handleContextLost);
+      canvas.addEventListener(
+        "webglcontextrestored",
+        this.handleContextRestored,
+      );
+    }
+  }
 
-    // Create source texture
-    this.sourceTexture = this.createTexture();
+  /**
+   * Create an instance, requesting a WebGPU device first when the backend allows it.
+   * Falls back to WebGL in "auto" mode if no adapter is available.
+   */
+  static async create(
+    canvas: KawarpCanvas,
+    options: KawarpInitOptions = {},
+  ): Promise<Kawarp> {
+    const backend = options.backend ?? "auto";
+    if (options.device || backend === "webgl") {
+      return new Kawarp(canvas, options);
+    }
 
-    // Create small FBOs for blur operations (high precision to avoid banding)
-    this.blurFBO1 = this.createFramebuffer(BLUR_SIZE, BLUR_SIZE, true);
-    this.blurFBO2 = this.createFramebuffer(BLUR_SIZE, BLUR_SIZE, true);
+    const adapter =
+      typeof navigator !== "undefined" && navigator.gpu
+        ? await navigator.gpu.requestAdapter()
+        : null;
+    const device = adapter ? await adapter.requestDevice() : null;
+    if (!device) {
+      if (backend === "webgpu") throw new Error("WebGPU not supported");
+      return new Kawarp(canvas, options);
+    }
 
-    // Create album FBOs for crossfade (high precision to avoid banding)
-    this.currentAlbumFBO = this.createFramebuffer(BLUR_SIZE, BLUR_SIZE, true);
-    this.nextAlbumFBO = this.createFramebuffer(BLUR_SIZE, BLUR_SIZE, true);
+    ownedDevices.add(device);
+    try {
+      return new Kawarp(canvas, { ...options, device });
+    } catch (error) {
+      device.destroy();
+      if (backend === "webgpu") throw error;
+      return new Kawarp(canvas, options);
+    }
+  }
 
-    // Create full-res warp FBO (will be resized)
-    this.warpFBO = this.createFramebuffer(1, 1, true);
+  /** Rendering backend in use: "webgpu", "webgl2", or "webgl" when WebGL2 is unavailable */
+  get backend(): KawarpBackend {
+    return this.renderer.backend;
+  }
 
-    this.resize();
+  /**
+   * Subscribe to an instance event. Returns a function that removes the listener.
+   */
+  on<E extends keyof KawarpEvents>(
+    event: E,
+    listener: KawarpEvents[E],
+  ): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof KawarpEvents>(event: E, listener: KawarpEvents[E]): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  private emit<E extends keyof KawarpEvents>(
+    event: E,
+    ...args: Parameters<KawarpEvents[E]>
+  ): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of set) {
+      (listener as (...args: Parameters<KawarpEvents[E]>) => void)(...args);
+    }
   }
 
   // Getters and setters
@@ -387,6 +410,7 @@ export class Kawarp {
     return this._warpIntensity;
   }
   set warpIntensity(value: number) {
+    this.tweens.delete("warpIntensity");
     this._warpIntensity = Math.max(0, Math.min(1, value));
   }
 
@@ -408,6 +432,7 @@ export class Kawarp {
     return this._targetAnimationSpeed;
   }
   set animationSpeed(value: number) {
+    this.tweens.delete("animationSpeed");
     this._targetAnimationSpeed = Math.max(0.1, Math.min(5, value));
   }
 
@@ -418,10 +443,41 @@ export class Kawarp {
     this._transitionDuration = Math.max(0, Math.min(5000, value));
   }
 
+  get transition(): KawarpTransition {
+    return this._transition;
+  }
+  set transition(value: KawarpTransition) {
+    this._transition = value;
+  }
+
+  get transitionEasing(): KawarpEasing {
+    return this._transitionEasing;
+  }
+  set transitionEasing(value: KawarpEasing) {
+    this._transitionEasing = value;
+  }
+
+  get seed(): number {
+    return this._seed;
+  }
+  set seed(value: number) {
+    this._seed = value;
+    this.wake();
+  }
+
+  get motion(): KawarpMotion {
+    return this._motion;
+  }
+  set motion(value: KawarpMotion) {
+    this._motion = value;
+    this.wake();
+  }
+
   get saturation(): number {
     return this._saturation;
   }
   set saturation(value: number) {
+    this.tweens.delete("saturation");
     this._saturation = Math.max(0, Math.min(3, value));
   }
 
@@ -460,6 +516,7 @@ export class Kawarp {
     return this._dithering;
   }
   set dithering(value: number) {
+    this.tweens.delete("dithering");
     this._dithering = Math.max(0, Math.min(0.1, value));
   }
 
@@ -467,10 +524,158 @@ export class Kawarp {
     return this._scale;
   }
   set scale(value: number) {
+    this.tweens.delete("scale");
     this._scale = Math.max(0.01, Math.min(4, value));
   }
 
-  setOptions(options: Partial<KawarpOptions>): void {
+  get blurAlgorithm(): KawarpBlurAlgorithm {
+    return this._blurAlgorithm;
+  }
+  set blurAlgorithm(value: KawarpBlurAlgorithm) {
+    if (value !== this._blurAlgorithm) {
+      this._blurAlgorithm = value;
+      if (this.hasImage) {
+        this.reblurCurrentImage();
+      }
+    }
+  }
+
+  get blurResolution(): number {
+    return this._blurResolution;
+  }
+  set blurResolution(value: number) {
+    const newValue = clampBlurResolution(value);
+    if (newValue !== this._blurResolution) {
+      this._blurResolution = newValue;
+      if (this.hasImage) {
+        // The album textures are reallocated, so the previous image is gone
+        this.isTransitioning = false;
+        this.reblurCurrentImage();
+      }
+    }
+  }
+
+  get fit(): KawarpFit {
+    return this._fit;
+  }
+  set fit(value: KawarpFit) {
+    if (value !== this._fit) {
+      this._fit = value;
+      if (this.hasImage) {
+        this.reblurCurrentImage();
+      }
+    }
+  }
+
+  get focalPoint(): [number, number] {
+    return this._focalPoint;
+  }
+  set focalPoint(value: [number, number]) {
+    const newValue = clampFocalPoint(value);
+    if (newValue.some((v, i) => v !== this._focalPoint[i])) {
+      this._focalPoint = newValue;
+      if (this.hasImage) {
+        this.reblurCurrentImage();
+      }
+    }
+  }
+
+  get crop(): KawarpCrop | null {
+    return this._crop;
+  }
+  set crop(value: KawarpCrop | null) {
+    const changed =
+      value?.x !== this._crop?.x ||
+      value?.y !== this._crop?.y ||
+      value?.width !== this._crop?.width ||
+      value?.height !== this._crop?.height;
+    if (changed) {
+      this._crop = value;
+      if (this.hasImage) {
+        this.reblurCurrentImage();
+      }
+    }
+  }
+
+  get vignetteIntensity(): number {
+    return this._vignetteIntensity;
+  }
+  set vignetteIntensity(value: number) {
+    this.tweens.delete("vignetteIntensity");
+    this._vignetteIntensity = Math.max(0, Math.min(1, value));
+  }
+
+  get vignetteRadius(): number {
+    return this._vignetteRadius;
+  }
+  set vignetteRadius(value: number) {
+    this.tweens.delete("vignetteRadius");
+    this._vignetteRadius = Math.max(0, Math.min(2, value));
+  }
+
+  get vignetteSoftness(): number {
+    return this._vignetteSoftness;
+  }
+  set vignetteSoftness(value: number) {
+    this.tweens.delete("vignetteSoftness");
+    this._vignetteSoftness = Math.max(0.01, Math.min(2, value));
+  }
+
+  get vignetteColor(): [number, number, number] {
+    return this._vignetteColor;
+  }
+  set vignetteColor(value: [number, number, number]) {
+    this.tweens.delete("vignetteColor");
+    this._vignetteColor = value.map((v) => Math.max(0, Math.min(1, v))) as [
+      number,
+      number,
+      number,
+    ];
+  }
+
+  get vignetteShape(): KawarpVignetteShape {
+    return this._vignetteShape;
+  }
+  set vignetteShape(value: KawarpVignetteShape) {
+    this._vignetteShape = value;
+  }
+
+  get vignetteCenter(): [number, number] {
+    return this._vignetteCenter;
+  }
+  set vignetteCenter(value: [number, number]) {
+    this.tweens.delete("vignetteCenter");
+    this._vignetteCenter = value.map((v) => Math.max(-1, Math.min(2, v))) as [
+      number,
+      number,
+    ];
+  }
+
+  /**
+   * Update several options at once. With a tween `duration`, numeric and
+   * color options animate to their new values and options that re-blur the
+   * image crossfade to the new blur. A `blurResolution` change reallocates
+   * the blur textures and still applies at once.
+   */
+  setOptions(
+    options: Partial<KawarpOptions>,
+    tween: KawarpTweenOptions = {},
+  ): void {
+    const now = this.clock();
+    const duration = Math.max(0, tween.duration ?? 0);
+    const easing = createEasing(tween.easing ?? "linear");
+    const blurResolution = this._blurResolution;
+
+    // Tweens start from the values on screen, read before the setters run
+    const from = new Map<TweenedOption, number[]>();
+    if (duration > 0) {
+      for (const key of TWEENED_OPTIONS) {
+        if (options[key] === undefined) continue;
+        from.set(key, [this.tweened(key, this[key], now)].flat());
+      }
+    }
+
+    this.batchingReblur = true;
     if (options.warpIntensity !== undefined)
       this.warpIntensity = options.warpIntensity;
     if (options.blurPasses !== undefined) this.blurPasses = options.blurPasses;
@@ -478,12 +683,51 @@ export class Kawarp {
       this.animationSpeed = options.animationSpeed;
     if (options.transitionDuration !== undefined)
       this.transitionDuration = options.transitionDuration;
+    if (options.transition !== undefined) this.transition = options.transition;
+    if (options.transitionEasing !== undefined)
+      this.transitionEasing = options.transitionEasing;
     if (options.saturation !== undefined) this.saturation = options.saturation;
     if (options.tintColor !== undefined) this.tintColor = options.tintColor;
     if (options.tintIntensity !== undefined)
       this.tintIntensity = options.tintIntensity;
     if (options.dithering !== undefined) this.dithering = options.dithering;
     if (options.scale !== undefined) this.scale = options.scale;
+    if (options.blurAlgorithm !== undefined)
+      this.blurAlgorithm = options.blurAlgorithm;
+    if (options.blurResolution !== undefined)
+      this.blurResolution = options.blurResolution;
+    if (options.fit !== undefined) this.fit = options.fit;
+    if (options.focalPoint !== undefined) this.focalPoint = options.focalPoint;
+    if (options.crop !== undefined) this.crop = options.crop;
+    if (options.vignetteIntensity !== undefined)
+      this.vignetteIntensity = options.vignetteIntensity;
+    if (options.vignetteRadius !== undefined)
+      this.vignetteRadius = options.vignetteRadius;
+    if (options.vignetteSoftness !== undefined)
+      this.vignetteSoftness = options.vignetteSoftness;
+    if (options.vignetteColor !== undefined)
+      this.vignetteColor = options.vignetteColor;
+    if (options.vignetteShape !== undefined)
+      this.vignetteShape = options.vignetteShape;
+    if (options.vignetteCenter !== undefined)
+      this.vignetteCenter = options.vignetteCenter;
+    if (options.seed !== undefined) this.seed = options.seed;
+    if (options.motion !== undefined) this.motion = options.motion;
+    this.batchingReblur = false;
+
+    for (const [key, values] of from) {
+      this.tweens.set(key, { from: values, start: now, duration, easing });
+    }
+
+    if (this.reblurPending) {
+      this.reblurPending = false;
+      if (duration > 0 && this._blurResolution === blurResolution) {
+        this.blurWithTransition({ style: "crossfade", easing, duration });
+      } else {
+        this.reblurCurrentImage();
+      }
+    }
+    this.wake();
   }
 
   getOptions(): Required<KawarpOptions> {
@@ -492,30 +736,51 @@ export class Kawarp {
       blurPasses: this._blurPasses,
       animationSpeed: this._targetAnimationSpeed,
       transitionDuration: this._transitionDuration,
+      transition: this._transition,
+      transitionEasing: this._transitionEasing,
       saturation: this._saturation,
       tintColor: this._tintColor,
       tintIntensity: this._tintIntensity,
       dithering: this._dithering,
       scale: this._scale,
+      blurAlgorithm: this._blurAlgorithm,
+      blurResolution: this._blurResolution,
+      fit: this._fit,
+      focalPoint: this._focalPoint,
+      crop: this._crop,
+      vignetteIntensity: this._vignetteIntensity,
+      vignetteRadius: this._vignetteRadius,
+      vignetteSoftness: this._vignetteSoftness,
+      vignetteColor: this._vignetteColor,
+      vignetteShape: this._vignetteShape,
+      vignetteCenter: this._vignetteCenter,
+      seed: this._seed,
+      motion: this._motion,
     };
   }
 
   // Image loading methods
-  loadImage(src: string): Promise<void> {
+  /**
+   * Load an image from a URL. `options` override the instance's fitting and
+   * transition options for this image only.
+   */
+  loadImage(src: string, options?: KawarpLoadOptions): Promise<void> {
+    // Workers have no Image element, decode through fetch + createImageBitmap
+    if (typeof Image === "undefined") {
+      return fetch(src)
+        .then((response) => {
+          if (!response.ok) throw new Error(`Failed to load image: ${src}`);
+          return response.blob();
+        })
+        .then((blob) => this.loadBlob(blob, options));
+    }
+
     return new Promise((resolve, reject) => {
       const img = new Image();
       img.crossOrigin = "anonymous";
       img.onload = () => {
-        this.gl.bindTexture(this.gl.TEXTURE_2D, this.sourceTexture);
-        this.gl.texImage2D(
-          this.gl.TEXTURE_2D,
-          0,
-          this.gl.RGBA,
-          this.gl.RGBA,
-          this.gl.UNSIGNED_BYTE,
-          img,
-        );
-        this.processNewImage();
+        this.uploadSource(img);
+        this.processNewImage(options);
         resolve();
       };
       img.onerror = () => reject(new Error(`Failed to load image: ${src}`));
@@ -523,47 +788,35 @@ export class Kawarp {
     });
   }
 
-  loadImageElement(source: TexImageSource): void {
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.sourceTexture);
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
-      0,
-      this.gl.RGBA,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      source,
-    );
-    this.processNewImage();
+  loadImageElement(source: TexImageSource, options?: KawarpLoadOptions): void {
+    this.uploadSource(source);
+    this.processNewImage(options);
   }
 
   loadImageData(
     data: Uint8Array | Uint8ClampedArray,
     width: number,
     height: number,
+    options?: KawarpLoadOptions,
   ): void {
-    this.gl.bindTexture(this.gl.TEXTURE_2D, this.sourceTexture);
-    this.gl.texImage2D(
-      this.gl.TEXTURE_2D,
-      0,
-      this.gl.RGBA,
+    this.uploadSource({
+      pixels:
+        data instanceof Uint8ClampedArray ? new Uint8Array(data.buffer) : data,
       width,
       height,
-      0,
-      this.gl.RGBA,
-      this.gl.UNSIGNED_BYTE,
-      data instanceof Uint8ClampedArray ? new Uint8Array(data.buffer) : data,
-    );
-    this.processNewImage();
+    });
+    this.processNewImage(options);
   }
 
   loadFromImageData(imageData: ImageData): void {
     this.loadImageData(imageData.data, imageData.width, imageData.height);
   }
 
-  async loadBlob(blob: Blob): Promise<void> {
+  async loadBlob(blob: Blob, options?: KawarpLoadOptions): Promise<void> {
     const bitmap = await createImageBitmap(blob);
-    this.loadImageElement(bitmap);
-    bitmap.close();
+    this.loadImageElement(bitmap, options);
+    // Closed once replaced, it may still be needed to restore a lost context
+    this.ownedBitmap = bitmap;
   }
 
   loadBase64(base64: string): Promise<void> {
@@ -581,13 +834,96 @@ export class Kawarp {
     return this.loadBlob(blob);
   }
 
+  /**
+   * Follow a video, re-blurring its current frame at up to `fps` frames per
+   * second. Each frame crossfades into the next over one frame interval, so
+   * the low resolution blur doesn't flicker. Frames that haven't changed,
+   * like those of a paused video, are skipped. Loading another source stops
+   * following the video.
+   */
+  loadVideo(
+    video: HTMLVideoElement,
+    options: KawarpVideoOptions = {},
+  ): Promise<void> {
+    const { fps = 15, ...loadOptions } = options;
+
+    return new Promise((resolve, reject) => {
+      const onLoaded = () => {
+        video.removeEventListener("error", onError);
+        this.stopVideo();
+        this.uploadSource(video);
+        this.processNewImage(loadOptions);
+        this.followVideo(video, Math.max(1, Math.min(60, fps)));
+        resolve();
+      };
+      const onError = () => {
+        video.removeEventListener("loadeddata", onLoaded);
+        reject(new Error("Failed to load video"));
+      };
+
+      if (video.readyState >= video.HAVE_CURRENT_DATA) {
+        onLoaded();
+        return;
+      }
+      video.addEventListener("loadeddata", onLoaded, { once: true });
+      video.addEventListener("error", onError, { once: true });
+    });
+  }
+
+  /**
+   * Follow a MediaStream, like a webcam, a screen share or another canvas's
+   * `captureStream()`, through a video element Kawarp creates and releases.
+   * Once every video track ends, the last frame stays on screen and
+   * `streamend` is emitted. The tracks themselves are left to the caller.
+   */
+  async loadStream(
+    stream: MediaStream,
+    options: KawarpVideoOptions = {},
+  ): Promise<void> {
+    const video = document.createElement("video");
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+
+    const tracks = stream.getVideoTracks();
+    const onEnded = () => {
+      if (!tracks.every((track) => track.readyState === "ended")) return;
+      // Releasing the stream blanks the video, so a context restore or
+      // re-blur would upload an empty frame. Keep a copy of the last one.
+      if (this.source === video) {
+        this.source = resizeSource(video, video.videoWidth, video.videoHeight);
+      }
+      this.stopVideo();
+      this.emit("streamend");
+    };
+    const release = () => {
+      for (const track of tracks) {
+        track.removeEventListener("ended", onEnded);
+      }
+      video.pause();
+      video.srcObject = null;
+    };
+
+    try {
+      await video.play();
+      await this.loadVideo(video, options);
+    } catch (error) {
+      release();
+      throw error;
+    }
+    for (const track of tracks) track.addEventListener("ended", onEnded);
+    this.releaseStream = release;
+  }
+
   loadGradient(colors: string[], angle = 135): void {
     const size = 512;
-    const canvas = document.createElement("canvas");
-    canvas.width = size;
-    canvas.height = size;
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    const canvas = createCanvas(size, size);
+    const ctx = canvas?.getContext("2d") as
+      | CanvasRenderingContext2D
+      | OffscreenCanvasRenderingContext2D
+      | null
+      | undefined;
+    if (!canvas || !ctx) return;
 
     const angleRad = (angle * Math.PI) / 180;
     const x1 = size / 2 - Math.cos(angleRad) * size;
@@ -605,97 +941,214 @@ export class Kawarp {
     this.loadImageElement(canvas);
   }
 
+  private uploadSource(source: SourceImage): void {
+    if (source !== this.video) this.stopVideo();
+    if (this.ownedBitmap && this.ownedBitmap !== source) {
+      this.ownedBitmap.close();
+      this.ownedBitmap = null;
+    }
+    this.source = source;
+    this.sourceSize =
+      "pixels" in source
+        ? [source.width, source.height]
+        : getSourceSize(source);
+    if ("pixels" in source) {
+      this.renderer.uploadSourceData(
+        source.pixels,
+        source.width,
+        source.height,
+      );
+    } else {
+      this.renderer.uploadSource(source);
+    }
+  }
   /**
-   * Process a new image: blur it and start transition
-   * This is the key optimization - blur only runs here, not every frame!
+   * Re-blur new video frames, at most one per `1000 / fps` ms. Uses
+   * requestVideoFrameCallback where available, which only fires for new
+   * frames, and polls every animation frame otherwise.
    */
-  private processNewImage(): void {
-    // Swap album FBOs - current becomes the "from", we'll render "to" into next
-    [this.currentAlbumFBO, this.nextAlbumFBO] = [
-      this.nextAlbumFBO,
-      this.currentAlbumFBO,
-    ];
-
-    // Blur into nextAlbumFBO
-    this.blurSourceInto(this.nextAlbumFBO);
+  private followVideo(video: HTMLVideoElement, fps: number): void {
+    this.video = video;
+    const interval = 1000 / fps;
+    let lastUpdate = this.clock();
+    let lastFrameTime = video.currentTime;
+
+    const onFrame = () => {
+      if (this.video !== video) return;
+      schedule();
+
+      const now = this.clock();
+      if (
+        this.contextLost ||
+        this.motionMode() === "none" ||
+        video.currentTime === lastFrameTime ||
+        now - lastUpdate < interval
+      ) {
+        return;
+      }
+      lastUpdate = now;
+      lastFrameTime = video.currentTime;
+
+      this.uploadSource(video);
+      this.blurWithTransition({
+        style: "crossfade",
+        easing: (t) => t,
+        duration: interval,
+      });
+    };
 
-    // Mark that we have an image
-    this.hasImage = true;
+    const schedule = () => {
+      if ("requestVideoFrameCallback" in video) {
+        const handle = video.requestVideoFrameCallback(onFrame);
+        this.cancelVideoFrame = () => video.cancelVideoFrameCallback(handle);
+      } else {
+        const handle = requestAnimationFrame(onFrame);
+        this.cancelVideoFrame = () => cancelAnimationFrame(handle);
+      }
+    };
+    schedule();
+  }
 
-    // Start transition
-    this.isTransitioning = true;
-    this.transitionStartTime = performance.now();
+  private stopVideo(): void {
+    this.cancelVideoFrame?.();
+    this.cancelVideoFrame = null;
+    this.video = null;
+    this.releaseStream?.();
+    this.releaseStream = null;
   }
 
   /**
-   * Re-blur the current image (used when blurPasses changes)
-   * Updates nextAlbumFBO in place without starting a transition
+   * Process a new image: blur it and start transition
+   * This is the key optimization - blur only runs here, not every frame!
    */
-  private reblurCurrentImage(): void {
-    this.blurSourceInto(this.nextAlbumFBO);
+  private processNewImage(options: KawarpLoadOptions = {}): void {
+    this.imageOptions = options;
+
+    this.blurWithTransition({
+      style: options.transition ?? this._transition,
+      easing: createEasing(options.transitionEasing ?? this._transitionEasing),
+      duration:
+        options.transitionDuration !== undefined
+          ? Math.max(0, Math.min(5000, options.transitionDuration))
+          : this._transitionDuration,
+    });
+
+    // Mark that we have an image
+    this.hasImage = true;
+    this.wake();
+
+    // Reading the album back stalls the GPU, so only when someone listens
+    if (this.listeners.get("palettechange")?.size && this.renderer.readAlbum) {
+      this.emit("palettechange", this.getPalette());
+    }
   }
 
   /**
-   * Blur the source texture into the target FBO (with tint applied before blur)
+   * Blur the source into the album texture and transition to it
    */
-  private blurSourceInto(targetFBO: Framebuffer): void {
-    const gl = this.gl;
+  private blurWithTransition(
+    transition: Omit<typeof this.activeTransition, "warpBoost">,
+  ): void {
+    // Interrupted mid-transition, fade from what is on screen instead of
+    // popping back to either album
+    const now = this.clock();
+    let frozen = false;
+    let warpBoost = 0;
+    if (this.isTransitioning) {
+      const state = this.transitionState(now);
+      if (state.blend < 1) {
+        this.renderer.freezeTransition(
+          state.blend,
+          this.activeTransition.style,
+        );
+        frozen = true;
+        warpBoost = state.warpBoost;
+      }
+    }
 
-    // Step 1: Apply tint to source texture → blurFBO1
-    gl.useProgram(this.tintProgram);
-    this.setupAttributes();
-    gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFBO1.framebuffer);
-    gl.viewport(0, 0, BLUR_SIZE, BLUR_SIZE);
-    gl.activeTexture(gl.TEXTURE0);
-    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
-    gl.uniform1i(this.uniforms.tint.texture, 0);
-    gl.uniform3fv(this.uniforms.tint.tintColor, this._tintColor);
-    gl.uniform1f(this.uniforms.tint.tintIntensity, this._tintIntensity);
-    gl.drawArrays(gl.TRIANGLES, 0, 6);
+    // Blur into the album texture, keeping the previous one as the "from"
+    this.renderer.blurSource(this.blurParams(), !frozen);
 
-    // Step 2: Kawase blur passes on the tinted texture
-    gl.useProgram(this.blurProgram);
-    this.setupAttributes();
-    gl.uniform2f(this.uniforms.blur.resolution, BLUR_SIZE, BLUR_SIZE);
-    gl.uniform1i(this.uniforms.blur.texture, 0);
+    // Without full motion, every transition is a plain fade
+    if (this.motionMode() !== "full") {
+      transition = { ...transition, style: "crossfade" };
+      warpBoost = 0;
+    }
 
-    let readFBO = this.blurFBO1;
-    let writeFBO = this.blurFBO2;
+    // Start transition
+    this.activeTransition = { ...transition, warpBoost };
+    this.isTransitioning = true;
+    this.transitionStartTime = now;
+  }
 
-    for (let i = 0; i < this._blurPasses; i++) {
-      gl.bindFramebuffer(gl.FRAMEBUFFER, writeFBO.framebuffer);
-      gl.viewport(0, 0, BLUR_SIZE, BLUR_SIZE);
-      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
-      gl.uniform1f(this.uniforms.blur.offset, i + 0.5);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-      [readFBO, writeFBO] = [writeFBO, readFBO];
+  /**
+   * Re-blur the current image (used when blur options change)
+   * Updates the album texture in place without starting a transition
+   */
+  private reblurCurrentImage(): void {
+    if (this.batchingReblur) {
+      this.reblurPending = true;
+      return;
     }
+    this.renderer.blurSource(this.blurParams(), false);
+    this.wake();
+  }
 
-    // Step 3: Copy final blur result to target FBO
-    gl.bindFramebuffer(gl.FRAMEBUFFER, targetFBO.framebuffer);
-    gl.viewport(0, 0, BLUR_SIZE, BLUR_SIZE);
-    gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
-    gl.uniform1f(this.uniforms.blur.offset, 0.0);
-    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  private blurParams(): BlurParams {
+    const { rect, bounds } = fitSource(
+      this.sourceSize,
+      this.aspect,
+      this.imageOptions.fit ?? this._fit,
+      this.imageOptions.focalPoint ?? this._focalPoint,
+      this.imageOptions.crop !== undefined
+        ? this.imageOptions.crop
+        : this._crop,
+    );
+    return {
+      tintColor: this._tintColor,
+      tintIntensity: this._tintIntensity,
+      blurPasses: this._blurPasses,
+      algorithm: this._blurAlgorithm,
+      resolution: this._blurResolution,
+      sourceRect: rect,
+      sourceBounds: bounds,
+    };
   }
 
   resize(): void {
-    const width = this.canvas.width;
-    const height = this.canvas.height;
-
-    // Only warpFBO needs to be canvas size
-    if (this.warpFBO) this.deleteFramebuffer(this.warpFBO);
-    this.warpFBO = this.createFramebuffer(width, height, true);
+    const { width, height } = this.canvas;
+    this.renderer.resize(width, height);
+
+    // The blur targets are stretched over the canvas, so refit the source
+    const aspect = width > 0 && height > 0 ? width / height : 1;
+    if (aspect !== this.aspect) {
+      this.aspect = aspect;
+      if (this.hasImage && (this.imageOptions.fit ?? this._fit) !== "stretch") {
+        this.reblurCurrentImage();
+      }
+    }
+    this.wake();
   }
 
   start(): void {
+    if (this.contextLost) {
+      this.resumeOnRestore = true;
+      return;
+    }
+    // Recording owns the canvas and the clock until it finishes
+    if (this.isRecording) {
+      this.playAfterRecording = true;
+      return;
+    }
     if (this.isPlaying) return;
     this.isPlaying = true;
-    this.lastFrameTime = performance.now();
-    requestAnimationFrame(this.renderLoop);
+    this.lastFrameTime = this.clock();
+    this.animationId = requestAnimationFrame(this.renderLoop);
   }
 
   stop(): void {
+    this.resumeOnRestore = false;
+    this.playAfterRecording = false;
     this.isPlaying = false;
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId);
@@ -704,270 +1157,742 @@ export class Kawarp {
   }
 
   renderFrame(time?: number): void {
-    const now = performance.now();
+    // Frames drawn mid-recording would end up in the clip
+    if (this.isRecording) return;
+    const now = this.clock();
     if (time !== undefined) {
       this.render(time, now);
     } else {
-      const dt = (now - this.lastFrameTime) / 1000;
-      this.lastFrameTime = now;
-      this._animationSpeed +=
-        (this._targetAnimationSpeed - this._animationSpeed) * 0.05;
-      this.accumulatedTime += dt * this._animationSpeed;
+      this.advance(now);
       this.render(this.accumulatedTime, now);
     }
   }
 
-  dispose(): void {
-    this.stop();
-    const gl = this.gl;
+  /**
+   * Jump the animation to `seconds`. Playback and `renderFrame()` carry on
+   * from there.
+   */
+  seek(seconds: number): void {
+    this.accumulatedTime = seconds;
+    this.lastFrameTime = this.clock();
+    this.wake();
+  }
 
-    gl.deleteProgram(this.blurProgram);
-    gl.deleteProgram(this.blendProgram);
-    gl.deleteProgram(this.tintProgram);
-    gl.deleteProgram(this.warpProgram);
-    gl.deleteProgram(this.outputProgram);
+  /**
+   * Replace the clock behind transitions, tweens and speed easing. It returns
+   * milliseconds, like `performance.now()`, which is restored when called
+   * without a source. With a fixed clock, `renderFrame(time)` reproduces the
+   * same frame every time.
+   *
+   * @example
+   * ```ts
+   * let frame = 0;
+   * kawarp.setTimeSource(() => frame * (1000 / 60));
+   * for (; frame < 120; frame++) kawarp.renderFrame(frame / 60);
+   * ```
+   */
+  setTimeSource(source?: () => number): void {
+    const previous = this.clock();
+    this.clock = source ?? (() => performance.now());
+
+    // Rebase running timers so transitions and tweens carry on. Before the
+    // first frame there is no frame time to carry, so time starts from here.
+    const offset = this.clock() - previous;
+    this.transitionStartTime += offset;
+    this.lastFrameTime = this.hasRendered
+      ? this.lastFrameTime + offset
+      : this.clock();
+    for (const tween of this.tweens.values()) tween.start += offset;
+  }
 
-    gl.deleteBuffer(this.positionBuffer);
-    gl.deleteBuffer(this.texCoordBuffer);
-    gl.deleteTexture(this.sourceTexture);
+  /**
+   * Drive options from audio. Each frame the analyser's spectrum is split
+   * into bass, mid and treble bands, smoothed with the `attack` and
+   * `release` times, and mapped options follow their band within `range`,
+   * replacing the configured value. With no option mapped, the bass drives
+   * `warpIntensity` and the overall energy `animationSpeed`. Onsets are
+   * emitted as `onset` events. Returns a function that disconnects.
+   *
+   * @example
+   * ```ts
+   * const analyser = audioContext.createAnalyser();
+   * mediaElementSource.connect(analyser);
+   * kawarp.connectAudio(analyser, {
+   *   warpIntensity: { band: "bass", range: [0.4, 1] },
+   *   scale: { band: "onset", range: [1, 1.08] },
+   * });
+   * ```
+   */
+  connectAudio(
+    source: KawarpAudioSource,
+    mapping: KawarpAudioMapping = {},
+  ): () => void {
+    const mapped =
+      mapping.warpIntensity ||
+      mapping.animationSpeed ||
+      mapping.scale ||
+      mapping.saturation;
+    const audio = new AudioReactor(
+      source,
+      mapped ? mapping : { ...DEFAULT_AUDIO_MAPPING, ...mapping },
+    );
+    this.audio = audio;
+    return () => {
+      if (this.audio === audio) this.audio = null;
+    };
+  }
 
-    this.deleteFramebuffer(this.blurFBO1);
-    this.deleteFramebuffer(this.blurFBO2);
-    this.deleteFramebuffer(this.currentAlbumFBO);
-    this.deleteFramebuffer(this.nextAlbumFBO);
-    this.deleteFramebuffer(this.warpFBO);
+  disconnectAudio(): void {
+    this.audio = null;
   }
 
-  private renderLoop = (timestamp: DOMHighResTimeStamp): void => {
-    if (!this.isPlaying) return;
-    const dt = (timestamp - this.lastFrameTime) / 1000;
-    this.lastFrameTime = timestamp;
-    this._animationSpeed +=
-      (this._targetAnimationSpeed - this._animationSpeed) * 0.05;
-    this.accumulatedTime += dt * this._animationSpeed;
-    this.render(this.accumulatedTime, timestamp);
-    this.animationId = requestAnimationFrame(this.renderLoop);
-  };
+  /**
+   * Swell the warp and scale once and let them settle back, on top of the
+   * base animation. Pulses overlap and add up.
+   */
+  pulse(strength = 1, options: KawarpPulseOptions = {}): void {
+    this.pulses.push({
+      start: this.clock(),
+      strength,
+      decay: Math.max(1, options.decay ?? 400),
+    });
+  }
 
   /**
-   * Main render loop - very efficient!
-   * Just: blend album FBOs → domain warp → output
+   * Pulse on every beat at `bpm`, scheduled against the render clock. `phase`
+   * is the clock time of any beat, so with a time source following the
+   * track, beat timestamps from metadata line up. Pass 0 to stop.
    */
-  private render(time: number, timestamp = performance.now()): void {
-    const gl = this.gl;
-    const width = this.canvas.width;
-    const height = this.canvas.height;
+  setTempo(bpm: number, options: KawarpTempoOptions = {}): void {
+    if (bpm <= 0) {
+      this.tempo = null;
+      return;
+    }
+    const interval = 60000 / bpm;
+    const start = options.phase ?? this.clock();
+    this.tempo = {
+      start,
+      interval,
+      strength: options.strength ?? 1,
+      decay: Math.max(1, options.decay ?? 400),
+      // The first beat at or after now pulses
+      lastBeat: Math.ceil((this.clock() - start) / interval) - 1,
+    };
+  }
 
-    // Calculate transition blend factor
-    let blendFactor = 1.0;
-    if (this.isTransitioning) {
-      const elapsed = timestamp - this.transitionStartTime;
-      blendFactor = Math.min(1.0, elapsed / this._transitionDuration);
-      if (blendFactor >= 1.0) {
-        this.isTransitioning = false;
+  /**
+   * Replace the domain warp with a GLSL function returning a UV offset,
+   * which is scaled by `warpIntensity`. `snoise`, `mod289` and `permute`
+   * stay in scope, and `snoise` follows the `seed` option. Call without a
+   * source to restore the default warp.
+   *
+   * If the function fails to compile, the default warp keeps rendering and
+   * the compile error is thrown. Only available on the WebGL backends.
+   *
+   * @example
+   * ```ts
+   * kawarp.setWarpFunction(`
+   *   vec2 warp(vec2 uv, float time) {
+   *     float t = time * 0.1;
+   *     return vec2(snoise(uv * 2.0 + t), snoise(uv * 2.0 - t)) * 0.3;
+   *   }
+   * `);
+   * ```
+   */
+  setWarpFunction(source?: string): void {
+    if (!this.renderer.setWarpFunction) {
+      throw new Error(
+        `setWarpFunction is not supported by the ${this.backend} backend`,
+      );
+    }
+    this.renderer.setWarpFunction(source);
+  }
+
+  /**
+   * Register a custom fragment-shader pass. Passes of the same stage run in
+   * the order they were added. Only available on the WebGL backends.
+   *
+   * @example
+   * ```ts
+   * const aberration = kawarp.addPass({
+   *   stage: "beforeOutput",
+   *   fragment: `
+   *     precision highp float;
+   *     uniform sampler2D u_texture;
+   *     uniform vec2 u_resolution;
+   *     uniform float u_amount;
+   *     varying vec2 v_texCoord;
+   *     void main() {
+   *       vec2 offset = vec2(u_amount, 0.0) / u_resolution;
+   *       gl_FragColor = vec4(
+   *         texture2D(u_texture, v_texCoord + offset).r,
+   *         texture2D(u_texture, v_texCoord).g,
+   *         texture2D(u_texture, v_texCoord - offset).b,
+   *         1.0
+   *       );
+   *     }
+   *   `,
+   *   uniforms: { u_amount: 2 },
+   * });
+   * aberration.setUniform("u_amount", 4);
+   * ```
+   */
+  addPass<U extends KawarpUniforms>(
+    options: KawarpPassOptions<U>,
+  ): KawarpPass<U> {
+    if (!this.renderer.addPass) {
+      throw new Error(
+        `addPass is not supported by the ${this.backend} backend`,
+      );
+    }
+    const pass = this.renderer.addPass(options);
+
+    // Blur-stage passes only run when the image is blurred
+    const reblur = () => {
+      if (options.stage === "afterBlur" && this.hasImage) {
+        this.reblurCurrentImage();
       }
+    };
+    reblur();
+
+    return {
+      stage: options.stage,
+      setUniform: (name, value) => {
+        pass.setUniform(name, value);
+        reblur();
+      },
+      remove: () => {
+        pass.remove();
+        reblur();
+      },
+    };
+  }
+
+  /**
+   * Dominant colors of the current image, read from the blurred album
+   * texture rather than decoding the image again. Only available on the
+   * WebGL and CPU backends: WebGPU textures can only be read back
+   * asynchronously, so WebGPU instances throw and never emit
+   * `palettechange`.
+   */
+  getPalette(options: KawarpPaletteOptions = {}): KawarpPalette {
+    if (!this.renderer.readAlbum) {
+      throw new Error(
+        `getPalette is not supported by the ${this.backend} backend, create the instance with backend: "webgl" to read palettes`,
+      );
+    }
+    const count = Math.max(1, Math.min(16, Math.floor(options.count ?? 5)));
+    return extractPalette(this.renderer.readAlbum().data, count);
+  }
+
+  /**
+   * The tinted, blurred source the warp samples from, at `blurResolution`
+   * pixels square. An `ImageData` where the environment has one, so it can
+   * go straight to `putImageData()`, and plain pixels like `readPixels()`
+   * elsewhere, such as in Node. Only available on the WebGL and CPU backends.
+   */
+  getBlurredImageData(): KawarpPixels {
+    if (!this.renderer.readAlbum) {
+      throw new Error(
+        `getBlurredImageData is not supported by the ${this.backend} backend`,
+      );
     }
+    const pixels = this.renderer.readAlbum();
+    if (typeof ImageData === "undefined") return pixels;
+    const image = new ImageData(pixels.width, pixels.height);
+    image.data.set(pixels.data);
+    return image;
+  }
 
-    // Step 1: Blend album FBOs (or use current if not transitioning)
-    let blendedTexture: WebGLTexture;
-
-    if (this.isTransitioning && blendFactor < 1.0) {
-      // Blend current → next at small resolution (same as album FBOs)
-      gl.useProgram(this.blendProgram);
-      this.setupAttributes();
-      gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFBO1.framebuffer);
-      gl.viewport(0, 0, BLUR_SIZE, BLUR_SIZE);
-
-      gl.activeTexture(gl.TEXTURE0);
-      gl.bindTexture(gl.TEXTURE_2D, this.currentAlbumFBO.texture);
-      gl.uniform1i(this.uniforms.blend.texture1, 0);
-
-      gl.activeTexture(gl.TEXTURE1);
-      gl.bindTexture(gl.TEXTURE_2D, this.nextAlbumFBO.texture);
-      gl.uniform1i(this.uniforms.blend.texture2, 1);
-
-      gl.uniform1f(this.uniforms.blend.blend, blendFactor);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-
-      blendedTexture = this.blurFBO1.texture;
-
-      // Warp upscales the blended result to full resolution
-      gl.useProgram(this.warpProgram);
-      this.setupAttributes();
-      gl.bindFramebuffer(gl.FRAMEBUFFER, this.warpFBO.framebuffer);
-      gl.viewport(0, 0, width, height);
-      gl.activeTexture(gl.TEXTURE0);
-      gl.bindTexture(gl.TEXTURE_2D, blendedTexture);
-      gl.uniform1i(this.uniforms.warp.texture, 0);
-      gl.uniform1f(this.uniforms.warp.time, time);
-      gl.uniform1f(this.uniforms.warp.intensity, this._warpIntensity);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-
-      // Output with saturation and dithering
-      gl.useProgram(this.outputProgram);
-      this.setupAttributes();
-      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-      gl.viewport(0, 0, width, height);
-      gl.bindTexture(gl.TEXTURE_2D, this.warpFBO.texture);
-      gl.uniform1i(this.uniforms.output.texture, 0);
-      gl.uniform1f(this.uniforms.output.saturation, this._saturation);
-      gl.uniform1f(this.uniforms.output.dithering, this._dithering);
-      gl.uniform1f(this.uniforms.output.time, time);
-      gl.uniform1f(this.uniforms.output.scale, this._scale);
-      gl.uniform2f(this.uniforms.output.resolution, width, height);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-    } else {
-      // No transition - just warp the current album directly
-      gl.useProgram(this.warpProgram);
-      this.setupAttributes();
-      gl.bindFramebuffer(gl.FRAMEBUFFER, this.warpFBO.framebuffer);
-      gl.viewport(0, 0, width, height);
-      gl.activeTexture(gl.TEXTURE0);
-      gl.bindTexture(gl.TEXTURE_2D, this.nextAlbumFBO.texture);
-      gl.uniform1i(this.uniforms.warp.texture, 0);
-      gl.uniform1f(this.uniforms.warp.time, time);
-      gl.uniform1f(this.uniforms.warp.intensity, this._warpIntensity);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-
-      // Output with vignette, saturation and dithering
-      gl.useProgram(this.outputProgram);
-      this.setupAttributes();
-      gl.bindFramebuffer(gl.FRAMEBUFFER, null);
-      gl.viewport(0, 0, width, height);
-      gl.bindTexture(gl.TEXTURE_2D, this.warpFBO.texture);
-      gl.uniform1i(this.uniforms.output.texture, 0);
-      gl.uniform1f(this.uniforms.output.saturation, this._saturation);
-      gl.uniform1f(this.uniforms.output.dithering, this._dithering);
-      gl.uniform1f(this.uniforms.output.time, time);
-      gl.uniform1f(this.uniforms.output.scale, this._scale);
-      gl.uniform2f(this.uniforms.output.resolution, width, height);
-      gl.drawArrays(gl.TRIANGLES, 0, 6);
-    }
-  }
-
-  private setupAttributes(): void {
-    const gl = this.gl;
-
-    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
-    gl.enableVertexAttribArray(this.attribs.position);
-    gl.vertexAttribPointer(this.attribs.position, 2, gl.FLOAT, false, 0, 0);
-
-    gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer);
-    gl.enableVertexAttribArray(this.attribs.texCoord);
-    gl.vertexAttribPointer(this.attribs.texCoord, 2, gl.FLOAT, false, 0, 0);
-  }
-
-  private createShader(type: number, source: string): WebGLShader {
-    const gl = this.gl;
-    const shader = gl.createShader(type);
-    if (!shader) throw new Error("Failed to create shader");
-
-    gl.shaderSource(shader, source);
-    gl.compileShader(shader);
-
-    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-      const error = gl.getShaderInfoLog(shader);
-      gl.deleteShader(shader);
-      throw new Error(`Shader compile error: ${error}`);
-    }
-    return shader;
-  }
-
-  private createProgram(
-    vertexSource: string,
-    fragmentSource: string,
-  ): WebGLProgram {
-    const gl = this.gl;
-    const vertexShader = this.createShader(gl.VERTEX_SHADER, vertexSource);
-    const fragmentShader = this.createShader(
-      gl.FRAGMENT_SHADER,
-      fragmentSource,
+  /**
+   * Render the current frame off-screen at any size and encode it, such as a
+   * large share card from a small canvas. The canvas is left as it is. Only
+   * available on the WebGL and CPU backends.
+   *
+   * @example
+   * ```ts
+   * const blob = await kawarp.snapshot({ width: 3000, height: 3000 });
+   * const bitmap = await createImageBitmap(blob);
+   * ```
+   */
+  async snapshot(options: KawarpSnapshotOptions = {}): Promise<Blob> {
+    if (!this.renderer.renderPixels) {
+      throw new Error(
+        `snapshot is not supported by the ${this.backend} backend`,
+      );
+    }
+    const pixels = this.readPixels({
+      width: options.width ?? this.canvas.width,
+      height: options.height ?? this.canvas.height,
+    });
+    return encodePixels(pixels, options.type ?? "image/png", options.quality);
+  }
+
+  /**
+   * Read back the last rendered frame as RGBA pixels (rows top to bottom).
+   * With a size, the current frame is drawn again off-screen at that size,
+   * with the image fitted to its aspect ratio, which also gets full-size
+   * frames out of the reduced-resolution CPU backend. Not available on the
+   * WebGPU backend.
+   */
+  readPixels(size?: { width: number; height: number }): KawarpPixels {
+    const renderer = this.renderer;
+    if (!renderer.readPixels || !renderer.renderPixels) {
+      throw new Error(
+        `readPixels is not supported by the ${this.backend} backend`,
+      );
+    }
+    if (!size) return renderer.readPixels();
+    const width = Math.max(1, Math.round(size.width));
+    const height = Math.max(1, Math.round(size.height));
+
+    // The album is fitted to the canvas, so when the fit for this aspect
+    // ratio differs it is blurred again for this frame and put back afterwards
+    const canvasFit = this.blurParams();
+    const aspect = this.aspect;
+    this.aspect = width / height;
+    const fit = this.blurParams();
+    this.aspect = aspect;
+    const refit =
+      this.hasImage &&
+      fit.sourceRect.some((value, i) => value !== canvasFit.sourceRect[i]);
+    if (refit) renderer.blurSource(fit, false);
+    try {
+      // Drawn again, so beats that came due are left for the next frame
+      return renderer.renderPixels(
+        this.frameParams(this.frameTime, this.clock(), false),
+        width,
+        height,
+      );
+    } finally {
+      if (refit) renderer.blurSource(canvasFit, false);
+    }
+  }
+
+  /**
+   * Stream the canvas as a video track, e.g. for WebRTC or a streaming tool.
+   * Frames are captured as they're drawn, at most `fps` per second. Only
+   * available for an HTMLCanvasElement.
+   */
+  captureStream(fps?: number): MediaStream {
+    if (!("captureStream" in this.canvas)) {
+      throw new Error("captureStream needs an HTMLCanvasElement");
+    }
+    return this.canvas.captureStream(fps);
+  }
+
+  /**
+   * Record a clip of the background with MediaRecorder. Frames are rendered
+   * on a frame clock instead of wall time, `1 / fps` seconds apart, so a
+   * slow frame holds the picture rather than skipping the animation ahead.
+   * With `loop`, the animation eases out and back along the same path, so
+   * the last frame leads into the first. Playback pauses while recording:
+   * `renderFrame()` is ignored, and `start()` or `stop()` only decide
+   * whether playback resumes afterwards.
+   *
+   * @example
+   * ```ts
+   * const clip = await kawarp.record({ duration: 8000, fps: 30, loop: true });
+   * video.src = URL.createObjectURL(clip);
+   * ```
+   */
+  async record(options: KawarpRecordOptions): Promise<Blob> {
+    if (this.isRecording) throw new Error("Already recording");
+    const fps = Math.max(1, Math.min(120, options.fps ?? 30));
+    const frames = Math.max(1, Math.round((options.duration / 1000) * fps));
+    const interval = 1000 / fps;
+
+    // Frames are pushed with requestFrame() once each is drawn
+    const stream = this.captureStream(0);
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+
+    const wasPlaying = this.isPlaying;
+    this.stop();
+    this.isRecording = true;
+    this.playAfterRecording = wasPlaying;
+    const clock = this.clock;
+    const start = clock();
+    const startTime = this.accumulatedTime;
+    // Animation time covered out and back, so the peak speed is the current one
+    const span = (this._animationSpeed * options.duration) / 1000 / Math.PI;
+    let now = start;
+    this.clock = () => now;
+    this.lastFrameTime = start;
+
+    try {
+      // Throws for an unsupported mimeType, after which the stream is stopped
+      const recorder = new MediaRecorder(stream, {
+        mimeType: options.mimeType,
+      });
+      const chunks: Blob[] = [];
+      recorder.addEventListener("dataavailable", (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      });
+      const stopped = new Promise<void>((resolve) => {
+        recorder.addEventListener("stop", () => resolve(), { once: true });
+      });
+
+      recorder.start();
+      const wallStart = performance.now();
+      for (let i = 0; i < frames; i++) {
+        now = start + i * interval;
+        if (options.loop) {
+          const phase = (2 * Math.PI * i) / frames;
+          this.render(startTime + (span * (1 - Math.cos(phase))) / 2, now);
+        } else {
+          this.advance(now);
+          this.render(this.accumulatedTime, now);
+        }
+        track?.requestFrame();
+
+        // Pace captures to the frame rate so the recorder's timestamps match
+        const wait = wallStart + (i + 1) * interval - performance.now();
+        await new Promise((resolve) => setTimeout(resolve, Math.max(0, wait)));
+      }
+      recorder.stop();
+      await stopped;
+      return new Blob(chunks, { type: recorder.mimeType });
+    } finally {
+      for (const t of stream.getTracks()) t.stop();
+      if (options.loop) this.accumulatedTime = startTime;
+      this.clock = clock;
+      this.lastFrameTime = clock();
+      this.isRecording = false;
+      if (this.playAfterRecording) this.start();
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    if (this.renderer.restore && isCanvas(this.canvas)) {
+      this.canvas.removeEventListener(
+        "webglcontextlost",
+        this.handleContextLost,
+      );
+      this.canvas.removeEventListener(
+        "webglcontextrestored",
+        this.handleContextRestored,
+      );
+    }
+    this.listeners.clear();
+    this.reducedMotionQuery?.removeEventListener(
+      "change",
+      this.handleMotionChange,
     );
+    this.stopVideo();
+    this.audio = null;
+    this.ownedBitmap?.close();
+    this.ownedBitmap = null;
+    this.source = null;
+    this.renderer.dispose();
+  }
 
-    const program = gl.createProgram();
-    if (!program) throw new Error("Failed to create program");
+  private handleContextLost = (event: Event): void => {
+    // The browser only restores the context if the default is prevented
+    event.preventDefault();
+    const wasPlaying = this.isPlaying;
+    this.stop();
+    this.contextLost = true;
+    this.resumeOnRestore = wasPlaying;
+    this.emit("contextlost");
+  };
+
+  private handleContextRestored = (): void => {
+    this.contextLost = false;
+    this.renderer.restore?.();
+    this.resize();
+
+    if (this.source) {
+      this.uploadSource(this.source);
+      this.reblurCurrentImage();
+    }
+    // The transition origin didn't survive, so jump to the current image
+    this.isTransitioning = false;
 
-    gl.attachShader(program, vertexShader);
-    gl.attachShader(program, fragmentShader);
-    gl.linkProgram(program);
+    if (this.resumeOnRestore) {
+      this.start();
+    } else {
+      this.render(this.accumulatedTime);
+    }
+    this.emit("contextrestored");
+  };
 
-    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-      const error = gl.getProgramInfoLog(program);
-      gl.deleteProgram(program);
-      throw new Error(`Program link error: ${error}`);
+  private renderLoop = (): void => {
+    if (!this.isPlaying) return;
+    const now = this.clock();
+    // Software rendering skips frames to run at a reduced frame rate
+    const interval = this.renderer.frameInterval ?? 0;
+    if (now - this.lastFrameTime < interval) {
+      this.animationId = requestAnimationFrame(this.renderLoop);
+      return;
+    }
+    this.advance(now);
+    this.render(this.accumulatedTime, now);
+
+    // A still frame only needs redrawing while it fades or tweens
+    if (
+      this.motionMode() === "none" &&
+      !this.isTransitioning &&
+      this.tweens.size === 0
+    ) {
+      this.animationId = null;
+      return;
     }
+    this.animationId = requestAnimationFrame(this.renderLoop);
+  };
+
+  private handleMotionChange = (): void => {
+    if (this._motion === "auto") this.wake();
+  };
 
-    gl.deleteShader(vertexShader);
-    gl.deleteShader(fragmentShader);
-    return program;
+  /**
+   * Motion mode in effect, with "auto" resolved from the system setting
+   */
+  private motionMode(): Exclude<KawarpMotion, "auto"> {
+    if (this._motion !== "auto") return this._motion;
+    return this.reducedMotionQuery?.matches ? "reduced" : "full";
   }
 
-  private createBuffer(data: Float32Array): WebGLBuffer {
-    const gl = this.gl;
-    const buffer = gl.createBuffer();
-    if (!buffer) throw new Error("Failed to create buffer");
+  /**
+   * Restart a render loop parked on a still frame, so a change shows
+   */
+  private wake(): void {
+    if (
+      !this.isPlaying ||
+      this.isRecording ||
+      this.animationId !== null ||
+      this.contextLost
+    ) {
+      return;
+    }
+    this.lastFrameTime = this.clock();
+    this.animationId = requestAnimationFrame(this.renderLoop);
+  }
 
-    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
-    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
-    return buffer;
+  /**
+   * Move the animation time forward to `now`, easing the speed toward its
+   * target by 5% per 60fps frame whatever the actual frame rate
+   */
+  private advance(now: number): void {
+    const dt = Math.max(0, now - this.lastFrameTime) / 1000;
+    this.lastFrameTime = now;
+    const targetSpeed = this.modulated(
+      "animationSpeed",
+      this.tweened("animationSpeed", this._targetAnimationSpeed, now),
+    );
+    this._animationSpeed +=
+      (targetSpeed - this._animationSpeed) * (1 - 0.95 ** (dt * 60));
+    this.accumulatedTime +=
+      dt * this._animationSpeed * MOTION_SCALES[this.motionMode()].speed;
   }
 
-  private createTexture(): WebGLTexture {
-    const gl = this.gl;
-    const texture = gl.createTexture();
-    if (!texture) throw new Error("Failed to create texture");
+  /**
+   * Main render loop - very efficient!
+   * Just: blend album textures → domain warp → output
+   */
+  private render(time: number, timestamp = this.clock()): void {
+    if (this.audio) {
+      const onset = this.audio.update(timestamp);
+      if (onset > 0) this.emit("onset", onset);
+    }
 
-    gl.bindTexture(gl.TEXTURE_2D, texture);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
-    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
-    return texture;
+    this.frameTime = time;
+    this.hasRendered = true;
+    this.renderer.render(this.frameParams(time, timestamp));
+    if (
+      this.isTransitioning &&
+      this.transitionState(timestamp).progress >= 1.0
+    ) {
+      this.isTransitioning = false;
+    }
   }
 
-  private createFramebuffer(
-    width: number,
-    height: number,
-    useHighPrecision = false,
-  ): Framebuffer {
-    const gl = this.gl;
-    const texture = this.createTexture();
-
-    const canUseHalfFloat =
-      useHighPrecision && this.halfFloatExt && this.halfFloatLinearExt;
-    const type = canUseHalfFloat
-      ? this.halfFloatExt!.HALF_FLOAT_OES
-      : gl.UNSIGNED_BYTE;
-
-    gl.texImage2D(
-      gl.TEXTURE_2D,
-      0,
-      gl.RGBA,
-      width,
-      height,
-      0,
-      gl.RGBA,
-      type,
-      null,
+  /**
+   * Everything the renderer needs to draw the frame at `time` seconds of
+   * animation, with transitions, tweens and pulses at `timestamp`. Without
+   * `advance` the tempo and pulses are read but left as they are.
+   */
+  private frameParams(
+    time: number,
+    timestamp: number,
+    advance = true,
+  ): FrameParams {
+    // Calculate transition blend factor
+    let blendFactor = 1.0;
+    let warpIntensity = this.modulated(
+      "warpIntensity",
+      this.tweened("warpIntensity", this._warpIntensity, timestamp),
     );
+    if (this.isTransitioning) {
+      const { blend, warpBoost } = this.transitionState(timestamp);
+      blendFactor = blend;
+      warpIntensity *= 1 + warpBoost;
+    }
+    // Pulses are motion too, so they only play in full motion
+    const motion = this.motionMode();
+    const pulse = motion === "full" ? this.pulseLevel(timestamp, advance) : 0;
+    warpIntensity *= (1 + PULSE_WARP * pulse) * MOTION_SCALES[motion].warp;
 
-    const framebuffer = gl.createFramebuffer();
-    if (!framebuffer) throw new Error("Failed to create framebuffer");
+    return {
+      time,
+      blend: blendFactor,
+      transition: this.activeTransition.style,
+      warpIntensity,
+      seed: this._seed,
+      saturation: this.modulated(
+        "saturation",
+        this.tweened("saturation", this._saturation, timestamp),
+      ),
+      dithering: this.tweened("dithering", this._dithering, timestamp),
+      scale:
+        this.modulated("scale", this.tweened("scale", this._scale, timestamp)) *
+        (1 + PULSE_SCALE * pulse),
+      vignetteIntensity: this.tweened(
+        "vignetteIntensity",
+        this._vignetteIntensity,
+        timestamp,
+      ),
+      vignetteRadius: this.tweened(
+        "vignetteRadius",
+        this._vignetteRadius,
+        timestamp,
+      ),
+      vignetteSoftness: this.tweened(
+        "vignetteSoftness",
+        this._vignetteSoftness,
+        timestamp,
+      ),
+      vignetteColor: this.tweened(
+        "vignetteColor",
+        this._vignetteColor,
+        timestamp,
+      ),
+      vignetteShape: this._vignetteShape,
+      vignetteCenter: this.tweened(
+        "vignetteCenter",
+        this._vignetteCenter,
+        timestamp,
+      ),
+    };
+  }
 
-    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
-    gl.framebufferTexture2D(
-      gl.FRAMEBUFFER,
-      gl.COLOR_ATTACHMENT0,
-      gl.TEXTURE_2D,
-      texture,
-      0,
-    );
-    return { framebuffer, texture };
+  /**
+   * Sum of the pulse envelopes at `now`, after starting any beat of the
+   * tempo that came due. With `advance` the beat and pulses are kept.
+   */
+  private pulseLevel(now: number, advance = true): number {
+    let pulses = this.pulses;
+    const tempo = this.tempo;
+    if (tempo) {
+      const beat = Math.floor((now - tempo.start) / tempo.interval);
+      if (beat > tempo.lastBeat) {
+        pulses = [
+          ...pulses,
+          {
+            start: tempo.start + beat * tempo.interval,
+            strength: tempo.strength,
+            decay: tempo.decay,
+          },
+        ];
+      }
+      // Also follows a clock that jumped back
+      if (advance) tempo.lastBeat = beat;
+    }
+    if (pulses.length === 0) return 0;
+
+    // Past five decays a pulse is below 1% of its strength
+    pulses = pulses.filter(({ start, decay }) => now - start < decay * 5);
+    if (advance) this.pulses = pulses;
+    let level = 0;
+    for (const { start, strength, decay } of pulses) {
+      const t = Math.max(0, now - start);
+      level +=
+        strength * Math.exp(-t / decay) * (1 - Math.exp(-t / PULSE_ATTACK));
+    }
+    return level;
+  }
+
+  /**
+   * Option value as modulated by the connected audio
+   */
+  private modulated(target: KawarpAudioTarget, value: number): number {
+    return this.audio ? this.audio.modulate(target, value) : value;
+  }
+
+  /**
+   * Value of an option on screen, between where its tween started and the
+   * option's value. Finished tweens are dropped.
+   */
+  private tweened<T extends number | number[]>(
+    key: TweenedOption,
+    value: T,
+    timestamp: number,
+  ): T {
+    const tween = this.tweens.get(key);
+    if (!tween) return value;
+    const progress = (timestamp - tween.start) / tween.duration;
+    if (progress >= 1) {
+      this.tweens.delete(key);
+      return value;
+    }
+
+    const t = tween.easing(Math.max(0, progress));
+    const lerp = (to: number, i: number) =>
+      tween.from[i]! + (to - tween.from[i]!) * t;
+    return (typeof value === "number" ? lerp(value, 0) : value.map(lerp)) as T;
+  }
+
+  /**
+   * Progress, eased blend and extra warp of the running transition
+   */
+  private transitionState(timestamp: number): {
+    progress: number;
+    blend: number;
+    warpBoost: number;
+  } {
+    const { style, easing, duration, warpBoost } = this.activeTransition;
+    const elapsed = timestamp - this.transitionStartTime;
+    const progress = duration > 0 ? Math.min(1.0, elapsed / duration) : 1.0;
+    const blend = Math.max(0, Math.min(1, easing(progress)));
+
+    // An inherited boost fades out with the blend, warp-through spikes the
+    // warp mid-transition and lets it settle into the new image
+    let boost = warpBoost * (1 - blend);
+    if (style === "warp-through") {
+      boost += WARP_THROUGH_BOOST * Math.sin(Math.PI * progress);
+    }
+    return { progress, blend, warpBoost: boost };
   }
 
-  private deleteFramebuffer(fbo: Framebuffer): void {
-    this.gl.deleteFramebuffer(fbo.framebuffer);
-    this.gl.deleteTexture(fbo.texture);
+  private createRenderer(options: KawarpInitOptions): Renderer {
+    const backend = options.backend ?? "auto";
+    if (!isCanvas(this.canvas)) {
+      if (backend !== "auto" && backend !== "cpu") {
+        throw new Error(`The ${backend} backend needs a canvas`);
+      }
+      return new CPURenderer(this.canvas);
+    }
+    if (backend === "webgpu" || (backend === "auto" && options.device)) {
+      if (!options.device) {
+        throw new Error(
+          "WebGPU backend needs a GPUDevice, pass one or use Kawarp.create()",
+        );
+      }
+      return new WebGPURenderer(
+        this.canvas,
+        options.device,
+        ownedDevices.has(options.device),
+      );
+    }
+    if (backend === "cpu") return new CPURenderer(this.canvas);
+    if (backend === "webgl") return new WebGLRenderer(this.canvas);
+
+    // Blocklisted GPUs and DOM emulations get the software renderer
+    try {
+      return new WebGLRenderer(this.canvas);
+    } catch {
+      return new CPURenderer(this.canvas);
+    }
   }
 }
 
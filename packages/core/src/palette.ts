@@ -0,0 +1,110 @@
+import type { KawarpPalette } from "./types.js";
+
+type Color = [number, number, number];
+
+/**
+ * Dominant colors of RGBA pixels by median cut: the box with the widest
+ * channel range is split at the middle of that range until there are `count`
+ * boxes, then each box is averaged. Splitting at the middle rather than the
+ * median keeps each box as large as the share of its colors, so colors come
+ * out most common first.
+ */
+export function extractPalette(
+  data: ArrayLike<number>,
+  count: number,
+): KawarpPalette {
+  const pixels: Color[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    pixels.push([data[i]! / 255, data[i + 1]! / 255, data[i + 2]! / 255]);
+  }
+
+  const boxes = [pixels];
+  while (boxes.length < count) {
+    let widest = -1;
+    let widestChannel = 0;
+    let widestMin = 0;
+    let widestRange = 0;
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 1;
+        let max = 0;
+        for (const color of box) {
+          min = Math.min(min, color[channel]!);
+          max = Math.max(max, color[channel]!);
+        }
+        if (max - min > widestRange) {
+          widest = i;
+          widestChannel = channel;
+          widestMin = min;
+          widestRange = max - min;
+        }
+      }
+    });
+    // Every box is a single color
+    if (widest < 0) break;
+
+    const box = boxes[widest]!;
+    box.sort((a, b) => a[widestChannel]! - b[widestChannel]!);
+    // Both halves keep a color, the range has a color at either end
+    const middle = widestMin + widestRange / 2;
+    const split = box.findIndex((color) => color[widestChannel]! > middle);
+    boxes.splice(widest, 1, box.slice(0, split), box.slice(split));
+  }
+
+  const colors = boxes
+    .filter((box) => box.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(averageColor);
+  if (colors.length === 0) colors.push([0, 0, 0]);
+
+  const [dominant] = colors as [Color, ...Color[]];
+  let accent = dominant;
+  for (const color of colors.slice(1)) {
+    if (accent === dominant || chroma(color) > chroma(accent)) accent = color;
+  }
+  return { dominant, accent, colors };
+}
+
+/**
+ * Write a palette to CSS custom properties on `element`: `--kawarp-dominant`,
+ * `--kawarp-accent` and `--kawarp-color-1` onwards, as `rgb()` colors.
+ *
+ * @example
+ * ```ts
+ * kawarp.on("palettechange", (palette) =>
+ *   applyPaletteVariables(document.documentElement, palette),
+ * );
+ * ```
+ */
+export function applyPaletteVariables(
+  element: ElementCSSInlineStyle,
+  palette: KawarpPalette,
+  prefix = "--kawarp",
+): void {
+  const { style } = element;
+  style.setProperty(`${prefix}-dominant`, cssColor(palette.dominant));
+  style.setProperty(`${prefix}-accent`, cssColor(palette.accent));
+  palette.colors.forEach((color, i) => {
+    style.setProperty(`${prefix}-color-${i + 1}`, cssColor(color));
+  });
+}
+
+function averageColor(box: Color[]): Color {
+  const sum: Color = [0, 0, 0];
+  for (const [r, g, b] of box) {
+    sum[0] += r;
+    sum[1] += g;
+    sum[2] += b;
+  }
+  return sum.map((channel) => channel / box.length) as Color;
+}
+
+function chroma([r, g, b]: Color): number {
+  return Math.max(r, g, b) - Math.min(r, g, b);
+}
+
+function cssColor(color: Color): string {
+  const [r, g, b] = color.map((channel) => Math.round(channel * 255));
+  return `rgb(${r} ${g} ${b})`;
+}
@@ -0,0 +1,288 @@
+import type {
+  KawarpBackend,
+  KawarpEvents,
+  KawarpInitOptions,
+  KawarpLoadOptions,
+  KawarpOptions,
+  KawarpPalette,
+  KawarpPaletteOptions,
+  KawarpPixels,
+  KawarpPulseOptions,
+  KawarpSnapshotOptions,
+  KawarpTempoOptions,
+  KawarpTweenOptions,
+} from "./types.js";
+
+/** Construction options for a worker-backed instance (devices stay on their thread) */
+export type KawarpWorkerOptions = Omit<KawarpInitOptions, "device">;
+
+/**
+ * Methods the worker forwards to its Kawarp instance, with their arguments
+ */
+export interface WorkerCalls {
+  loadImage: [src: string, options?: KawarpLoadOptions];
+  loadBlob: [blob: Blob, options?: KawarpLoadOptions];
+  loadImageData: [
+    data: Uint8Array,
+    width: number,
+    height: number,
+    options?: KawarpLoadOptions,
+  ];
+  loadGradient: [colors: string[], angle?: number];
+  setOptions: [options: Partial<KawarpOptions>, tween?: KawarpTweenOptions];
+  getOptions: [];
+  getPalette: [options?: KawarpPaletteOptions];
+  getBlurredImageData: [];
+  snapshot: [options?: KawarpSnapshotOptions];
+  start: [];
+  stop: [];
+  resize: [width: number, height: number];
+  renderFrame: [time?: number];
+  seek: [seconds: number];
+  pulse: [strength?: number, options?: KawarpPulseOptions];
+  setTempo: [bpm: number, options?: KawarpTempoOptions];
+  dispose: [];
+}
+
+export type WorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas; options: KawarpWorkerOptions }
+  | { type: "subscribe"; event: keyof KawarpEvents }
+  | { type: "unsubscribe"; event: keyof KawarpEvents }
+  | {
+      [M in keyof WorkerCalls]: {
+        type: "call";
+        id: number;
+        method: M;
+        args: WorkerCalls[M];
+      };
+    }[keyof WorkerCalls];
+
+export type WorkerResponse =
+  | { type: "ready"; backend: KawarpBackend }
+  | { type: "event"; event: keyof KawarpEvents; args?: unknown[] }
+  | { type: "result"; id: number; value?: unknown }
+  | { type: "error"; id?: number; message: string };
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread handle for a Kawarp instance running in a Web Worker.
+ *
+ * The canvas is transferred to the worker with `transferControlToOffscreen()`,
+ * so rendering and image decoding happen off the main thread. Methods are
+ * forwarded as messages; the worker script must call `exposeKawarp()` from
+ * `@kawarp/core/worker`.
+ *
+ * @example
+ * ```ts
+ * const worker = new Worker(new URL("./kawarp.worker.js", import.meta.url), {
+ *   type: "module",
+ * });
+ * const kawarp = new KawarpProxy(canvas, worker);
+ * await kawarp.loadImage("cover.jpg");
+ * kawarp.start();
+ * ```
+ */
+export class KawarpProxy {
+  /** Resolves with the backend picked by the worker once it is rendering */
+  readonly ready: Promise<KawarpBackend>;
+
+  private worker: Worker;
+  private nextId = 0;
+  private pending = new Map<number, PendingCall>();
+  private listeners = new Map<
+    keyof KawarpEvents,
+    Set<(...args: never[]) => void>
+  >();
+  private disposed = false;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    worker: Worker,
+    options: KawarpWorkerOptions = {},
+  ) {
+    this.worker = worker;
+
+    let resolveReady!: (backend: KawarpBackend) => void;
+    let rejectReady!: (error: Error) => void;
+    this.ready = new Promise((resolve, reject) => {
+      resolveReady = resolve;
+      rejectReady = reject;
+    });
+
+    worker.addEventListener("message", (event: MessageEvent) => {
+      const message = event.data as WorkerResponse;
+      if (message.type === "ready") {
+        resolveReady(message.backend);
+        return;
+      }
+      if (message.type === "event") {
+        for (const listener of this.listeners.get(message.event) ?? []) {
+          (listener as (...args: unknown[]) => void)(...(message.args ?? []));
+        }
+        return;
+      }
+
+      if (message.id === undefined) {
+        if (message.type === "error") rejectReady(new Error(message.message));
+        return;
+      }
+      const call = this.pending.get(message.id);
+      if (!call) return;
+      this.pending.delete(message.id);
+      if (message.type === "error") {
+        call.reject(new Error(message.message));
+      } else {
+        call.resolve(message.value);
+      }
+    });
+
+    const offscreen = canvas.transferControlToOffscreen();
+    this.post({ type: "init", canvas: offscreen, options }, [offscreen]);
+  }
+
+  /**
+   * Subscribe to an event of the worker's instance. Returns a function that
+   * removes the listener.
+   */
+  on<E extends keyof KawarpEvents>(
+    event: E,
+    listener: KawarpEvents[E],
+  ): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    // The worker only forwards events someone listens to, since some cost
+    // work to produce, like the palette readback
+    if (set.size === 0 && !this.disposed) {
+      this.post({ type: "subscribe", event }, []);
+    }
+    set.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<E extends keyof KawarpEvents>(event: E, listener: KawarpEvents[E]): void {
+    const set = this.listeners.get(event);
+    if (!set?.delete(listener) || set.size > 0 || this.disposed) return;
+    this.post({ type: "unsubscribe", event }, []);
+  }
+
+  loadImage(src: string, options?: KawarpLoadOptions): Promise<void> {
+    // Resolve relative URLs against the page, not the worker script
+    const url = new URL(src, document.baseURI).href;
+    return this.call("loadImage", [url, options]);
+  }
+
+  loadBlob(blob: Blob, options?: KawarpLoadOptions): Promise<void> {
+    return this.call("loadBlob", [blob, options]);
+  }
+
+  loadImageData(
+    data: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number,
+    options?: KawarpLoadOptions,
+  ): Promise<void> {
+    const copy = new Uint8Array(data);
+    return this.call(
+      "loadImageData",
+      [copy, width, height, options],
+      [copy.buffer],
+    );
+  }
+
+  loadGradient(colors: string[], angle?: number): Promise<void> {
+    return this.call("loadGradient", [colors, angle]);
+  }
+
+  setOptions(
+    options: Partial<KawarpOptions>,
+    tween?: KawarpTweenOptions,
+  ): Promise<void> {
+    return this.call("setOptions", [options, tween]);
+  }
+
+  getOptions(): Promise<Required<KawarpOptions>> {
+    return this.call("getOptions", []);
+  }
+
+  getPalette(options?: KawarpPaletteOptions): Promise<KawarpPalette> {
+    return this.call("getPalette", [options]);
+  }
+
+  getBlurredImageData(): Promise<KawarpPixels> {
+    return this.call("getBlurredImageData", []);
+  }
+
+  snapshot(options?: KawarpSnapshotOptions): Promise<Blob> {
+    return this.call("snapshot", [options]);
+  }
+
+  start(): Promise<void> {
+    return this.call("start", []);
+  }
+
+  stop(): Promise<void> {
+    return this.call("stop", []);
+  }
+
+  /**
+   * Resize the drawing buffer. The transferred canvas can no longer be
+   * resized from the main thread, so the new size is sent to the worker.
+   */
+  resize(width: number, height: number): Promise<void> {
+    return this.call("resize", [width, height]);
+  }
+
+  renderFrame(time?: number): Promise<void> {
+    return this.call("renderFrame", [time]);
+  }
+
+  seek(seconds: number): Promise<void> {
+    return this.call("seek", [seconds]);
+  }
+
+  pulse(strength?: number, options?: KawarpPulseOptions): Promise<void> {
+    return this.call("pulse", [strength, options]);
+  }
+
+  setTempo(bpm: number, options?: KawarpTempoOptions): Promise<void> {
+    return this.call("setTempo", [bpm, options]);
+  }
+
+  /**
+   * Dispose the worker's instance. The worker itself is left running.
+   */
+  dispose(): Promise<void> {
+    const done = this.call("dispose", []);
+    this.disposed = true;
+    return done;
+  }
+
+  private call<M extends keyof WorkerCalls, R = void>(
+    method: M,
+    args: WorkerCalls[M],
+    transfer: Transferable[] = [],
+  ): Promise<R> {
+    if (this.disposed) {
+      return Promise.reject(new Error("Kawarp instance has been disposed"));
+    }
+    const id = this.nextId++;
+    return new Promise<R>((resolve, reject) => {
+      this.pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.post({ type: "call", id, method, args } as WorkerRequest, transfer);
+    });
+  }
+
+  private post(message: WorkerRequest, transfer: Transferable[]): void {
+    this.worker.postMessage(message, transfer);
+  }
+}
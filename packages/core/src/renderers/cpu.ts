@@ -0,0 +1,921 @@
+import type {
+  KawarpBackend,
+  KawarpCanvas,
+  KawarpHeadlessCanvas,
+  KawarpPixels,
+  KawarpTransition,
+} from "../types.js";
+import {
+  clampSize,
+  createCanvas,
+  getSourceSize,
+  resizePixels,
+  resizeSource,
+} from "../utils.js";
+import {
+  BLUR_SIZE,
+  type BlurParams,
+  dualKawaseLevels,
+  type FrameParams,
+  gaussianPasses,
+  MAX_GAUSSIAN_SIGMA,
+  pickSourceLevel,
+  type Renderer,
+  seedOffset,
+  sourceLevelSizes,
+  TRANSITION_SOFTNESS,
+  transitionMode,
+} from "./renderer.js";
+
+// Longest side of the software render target, upscaled when presented
+const MAX_RENDER_SIZE = 160;
+
+// Decoded sources are capped to keep the copy small
+const MAX_SOURCE_SIZE = 1024;
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+interface Buffer {
+  data: ArrayLike<number>;
+  width: number;
+  height: number;
+  /** Multiplier that maps stored values to 0-1 */
+  range: number;
+}
+
+// Float RGBA buffer the blur passes render into
+interface Target {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Software implementation of the pipeline, ported from the GLSL shaders.
+ *
+ * Renders into typed arrays at reduced resolution and presents through
+ * Canvas2D when one is available. Buffers follow WebGL conventions (row 0 is
+ * the bottom, V=0 samples the first source row) so output matches the GPU
+ * backends.
+ */
+export class CPURenderer implements Renderer {
+  readonly backend: KawarpBackend = "cpu";
+  readonly frameInterval = 1000 / 30;
+
+  private context: Canvas2D | null = null;
+  private staging: KawarpCanvas | null = null;
+  private stagingContext: Canvas2D | null = null;
+
+  // Source image (original pixels, 8-bit RGBA)
+  private source: Buffer = {
+    data: new Uint8Array(4),
+    width: 1,
+    height: 1,
+    range: 1 / 255,
+  };
+
+  // Box-filtered half-size reductions of the source
+  private sourceLevels: Buffer[] = [];
+
+  // Small buffers for blur (blurSize x blurSize)
+  private blurSize = BLUR_SIZE;
+  private blurBuffer1 = new Float32Array(BLUR_SIZE * BLUR_SIZE * 4);
+  private blurBuffer2 = new Float32Array(BLUR_SIZE * BLUR_SIZE * 4);
+
+  // Dual Kawase downsample chain, halving from blurSize (created on demand)
+  private dualBuffers: Target[] = [];
+
+  // Album buffers for crossfade (blurSize x blurSize)
+  private currentAlbum = new Float32Array(BLUR_SIZE * BLUR_SIZE * 4);
+  private nextAlbum = new Float32Array(BLUR_SIZE * BLUR_SIZE * 4);
+
+  // Reduced-resolution warp and output buffers
+  private warpBuffer = new Float32Array(4);
+  private output = new Uint8ClampedArray(4);
+  private renderWidth = 1;
+  private renderHeight = 1;
+  private canvasWidth = 1;
+  private canvasHeight = 1;
+
+  // Scratch color for sampling
+  private sample: [number, number, number, number] = [0, 0, 0, 0];
+
+  constructor(canvas: KawarpCanvas | KawarpHeadlessCanvas) {
+    // Without a 2D context (Node, jsdom) frames are only kept in memory
+    try {
+      this.context =
+        "getContext" in canvas && typeof canvas.getContext === "function"
+          ? canvas.getContext("2d")
+          : null;
+    } catch {
+      this.context = null;
+    }
+  }
+
+  uploadSource(source: TexImageSource): void {
+    const [sourceWidth, sourceHeight] = getSourceSize(source);
+    const [width, height] = clampSize(
+      sourceWidth,
+      sourceHeight,
+      MAX_SOURCE_SIZE,
+    );
+
+    const canvas = resizeSource(source, width, height);
+    const ctx = canvas.getContext("2d") as Canvas2D;
+    const { data } = ctx.getImageData(0, 0, width, height);
+    this.uploadSourceData(data, width, height);
+  }
+
+  uploadSourceData(
+    data: Uint8Array | Uint8ClampedArray,
+    width: number,
+    height: number,
+  ): void {
+    const [fitWidth, fitHeight] = clampSize(width, height, MAX_SOURCE_SIZE);
+    const pixels =
+      fitWidth < width || fitHeight < height
+        ? resizePixels(data, width, height, fitWidth, fitHeight)
+        : data;
+    this.source = {
+      data: pixels,
+      width: fitWidth,
+      height: fitHeight,
+      range: 1 / 255,
+    };
+
+    // Each level averages 2x2 blocks of the one above
+    let level = this.source;
+    this.sourceLevels = sourceLevelSizes(fitWidth, fitHeight).map(([w, h]) => {
+      level = {
+        data: resizePixels(level.data, level.width, level.height, w, h),
+        width: w,
+        height: h,
+        range: 1 / 255,
+      };
+      return level;
+    });
+  }
+
+  /**
+   * Blur the source into the album buffer (with tint applied before blur)
+   */
+  blurSource(params: BlurParams, swap: boolean): void {
+    this.ensureBlurSize(params.resolution);
+    const size = this.blurSize;
+
+    // Swap album buffers - current becomes the "from", we'll render "to" into next
+    if (swap) {
+      [this.currentAlbum, this.nextAlbum] = [this.nextAlbum, this.currentAlbum];
+    }
+
+    // Step 1: Apply tint to source → blurBuffer1
+    const [tintR, tintG, tintB] = params.tintColor;
+    const [rectX, rectY, rectWidth, rectHeight] = params.sourceRect;
+    const [minU, minV, maxU, maxV] = params.sourceBounds;
+    const sources = [this.source, ...this.sourceLevels];
+    const source =
+      sources[
+        pickSourceLevel(
+          sources.map(({ width, height }): [number, number] => [width, height]),
+          params.sourceRect,
+          size,
+        )
+      ]!;
+    const color = this.sample;
+    let i = 0;
+    for (let y = 0; y < size; y++) {
+      // Map onto the fitted source region, clamping to the crop
+      const v = clamp(rectY + ((y + 0.5) / size) * rectHeight, minV, maxV);
+      for (let x = 0; x < size; x++) {
+        const u = clamp(rectX + ((x + 0.5) / size) * rectWidth, minU, maxU);
+        sampleBilinear(source, u, v, color);
+        const luma = color[0] * 0.299 + color[1] * 0.587 + color[2] * 0.114;
+
+        // darkMask: 1.0 for black, 0.0 for luma >= 0.5
+        const darkMask = 1 - smoothstep(0, 0.5, luma);
+        const amount = darkMask * params.tintIntensity;
+
+        this.blurBuffer1[i] = mix(color[0], tintR, amount);
+        this.blurBuffer1[i + 1] = mix(color[1], tintG, amount);
+        this.blurBuffer1[i + 2] = mix(color[2], tintB, amount);
+        this.blurBuffer1[i + 3] = color[3];
+        i += 4;
+      }
+    }
+
+    // Step 2: Blur the tinted buffer
+    let result: Float32Array;
+    switch (params.algorithm) {
+      case "dual-kawase":
+        result = this.dualKawaseBlur(params.blurPasses);
+        break;
+      case "gaussian":
+        result = this.gaussianBlur(params.blurPasses);
+        break;
+      default:
+        result = this.kawaseBlur(params.blurPasses);
+    }
+
+    // Step 3: Copy final blur result to the album buffer
+    this.nextAlbum.set(result);
+  }
+
+  freezeTransition(blend: number, transition: KawarpTransition): void {
+    blendAlbums(
+      this.currentAlbum,
+      this.nextAlbum,
+      this.blurBuffer1,
+      this.blurSize,
+      { blend, transition },
+    );
+    [this.currentAlbum, this.blurBuffer1] = [
+      this.blurBuffer1,
+      this.currentAlbum,
+    ];
+  }
+
+  resize(width: number, height: number): void {
+    this.canvasWidth = Math.max(1, width);
+    this.canvasHeight = Math.max(1, height);
+
+    const fit = Math.min(
+      1,
+      MAX_RENDER_SIZE / Math.max(this.canvasWidth, this.canvasHeight),
+    );
+    this.renderWidth = Math.max(1, Math.round(this.canvasWidth * fit));
+    this.renderHeight = Math.max(1, Math.round(this.canvasHeight * fit));
+
+    const pixels = this.renderWidth * this.renderHeight * 4;
+    this.warpBuffer = new Float32Array(pixels);
+    this.output = new Uint8ClampedArray(pixels);
+
+    if (this.context) {
+      this.staging = createCanvas(this.renderWidth, this.renderHeight);
+      this.stagingContext = this.staging?.getContext("2d") as Canvas2D | null;
+    }
+  }
+
+  /**
+   * Blend album buffers → domain warp → output, then present
+   */
+  render(params: FrameParams): void {
+    this.draw(params);
+    this.present();
+  }
+
+  renderPixels(
+    params: FrameParams,
+    width: number,
+    height: number,
+  ): KawarpPixels {
+    const { renderWidth, renderHeight, warpBuffer, output } = this;
+
+    // Swap in buffers of the requested size for one frame
+    this.renderWidth = width;
+    this.renderHeight = height;
+    this.warpBuffer = new Float32Array(width * height * 4);
+    this.output = new Uint8ClampedArray(width * height * 4);
+    try {
+      this.draw(params);
+      return { width, height, data: this.output };
+    } finally {
+      this.renderWidth = renderWidth;
+      this.renderHeight = renderHeight;
+      this.warpBuffer = warpBuffer;
+      this.output = output;
+    }
+  }
+
+  /**
+   * Blend album buffers → domain warp → output, without presenting
+   */
+  private draw(params: FrameParams): void {
+    // Step 1: Blend album buffers (or use current if not transitioning)
+    let blended = this.nextAlbum;
+
+    if (params.blend < 1.0) {
+      blendAlbums(
+        this.currentAlbum,
+        this.nextAlbum,
+        this.blurBuffer1,
+        this.blurSize,
+        params,
+      );
+      blended = this.blurBuffer1;
+    }
+
+    // Step 2: Warp upscales the blended result to render resolution
+    this.warp(blended, params);
+
+    // Step 3: Output with vignette, saturation and dithering
+    this.composite(params);
+  }
+
+  readPixels(): KawarpPixels {
+    return {
+      width: this.renderWidth,
+      height: this.renderHeight,
+      data: this.output.slice(),
+    };
+  }
+
+  readAlbum(): KawarpPixels {
+    const data = new Uint8ClampedArray(this.nextAlbum.length);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = this.nextAlbum[i]! * 255 + 0.5;
+    }
+    return { width: this.blurSize, height: this.blurSize, data };
+  }
+
+  dispose(): void {
+    this.source = {
+      data: new Uint8Array(4),
+      width: 1,
+      height: 1,
+      range: 1 / 255,
+    };
+    this.sourceLevels = [];
+    this.warpBuffer = new Float32Array(4);
+    this.output = new Uint8ClampedArray(4);
+    this.staging = null;
+    this.stagingContext = null;
+  }
+
+  /**
+   * Reallocate the blur and album buffers when the blur resolution changes.
+   * Album contents are lost, so the caller re-blurs right after.
+   */
+  private ensureBlurSize(size: number): void {
+    if (size === this.blurSize) return;
+    const pixels = size * size * 4;
+    this.blurSize = size;
+    this.blurBuffer1 = new Float32Array(pixels);
+    this.blurBuffer2 = new Float32Array(pixels);
+    this.currentAlbum = new Float32Array(pixels);
+    this.nextAlbum = new Float32Array(pixels);
+    this.dualBuffers = [];
+  }
+
+  /**
+   * Iterative Kawase: the tap offset grows by one texel each pass
+   */
+  private kawaseBlur(passes: number): Float32Array {
+    const size = this.blurSize;
+    let read = this.blurBuffer1;
+    let write = this.blurBuffer2;
+
+    for (let pass = 0; pass < passes; pass++) {
+      kawasePass(
+        { data: read, width: size, height: size, range: 1 },
+        { data: write, width: size, height: size },
+        pass + 0.5,
+        this.sample,
+      );
+      [read, write] = [write, read];
+    }
+    return read;
+  }
+
+  /**
+   * Separable Gaussian: horizontal then vertical, repeated for wide kernels
+   */
+  private gaussianBlur(passes: number): Float32Array {
+    const size = this.blurSize;
+    const { sigma, iterations } = gaussianPasses(passes, size);
+    let read = this.blurBuffer1;
+    let write = this.blurBuffer2;
+
+    for (let pass = 0; pass < iterations * 2; pass++) {
+      const horizontal = pass % 2 === 0;
+      gaussianPass(
+        { data: read, width: size, height: size, range: 1 },
+        { data: write, width: size, height: size },
+        horizontal ? 1 / size : 0,
+        horizontal ? 0 : 1 / size,
+        sigma,
+        this.sample,
+      );
+      [read, write] = [write, read];
+    }
+    return read;
+  }
+
+  /**
+   * Dual Kawase: downsample through a chain of half-size buffers, then
+   * upsample back to blurSize
+   */
+  private dualKawaseBlur(passes: number): Float32Array {
+    const size = this.blurSize;
+    const levels = dualKawaseLevels(passes, size);
+    while (this.dualBuffers.length < levels) {
+      const levelSize = Math.max(1, size >> (this.dualBuffers.length + 1));
+      this.dualBuffers.push({
+        data: new Float32Array(levelSize * levelSize * 4),
+        width: levelSize,
+        height: levelSize,
+      });
+    }
+
+    // Downsample: blurBuffer1 → dualBuffers[0] → ... → dualBuffers[levels - 1]
+    let read: Target = { data: this.blurBuffer1, width: size, height: size };
+    for (let level = 0; level < levels; level++) {
+      const target = this.dualBuffers[level]!;
+      dualKawasePass({ ...read, range: 1 }, target, false, this.sample);
+      read = target;
+    }
+
+    // Upsample back up the chain, the last step lands in blurBuffer2
+    for (let level = levels - 2; level >= -1; level--) {
+      const target =
+        level >= 0
+          ? this.dualBuffers[level]!
+          : { data: this.blurBuffer2, width: size, height: size };
+      dualKawasePass({ ...read, range: 1 }, target, true, this.sample);
+      read = target;
+    }
+    return read.data;
+  }
+
+  private warp(blended: Float32Array, params: FrameParams): void {
+    const width = this.renderWidth;
+    const height = this.renderHeight;
+    const texture: Buffer = {
+      data: blended,
+      width: this.blurSize,
+      height: this.blurSize,
+      range: 1,
+    };
+    const t = params.time * 0.05;
+    const color = this.sample;
+    const [seedX, seedY] = seedOffset(params.seed);
+    const noise = (x: number, y: number) => snoise(x + seedX, y + seedY);
+
+    let i = 0;
+    for (let y = 0; y < height; y++) {
+      const v = (y + 0.5) / height;
+      for (let x = 0; x < width; x++) {
+        const u = (x + 0.5) / width;
+
+        const cx = u - 0.5;
+        const cy = v - 0.5;
+        const centerWeight =
+          1 - smoothstep(0, 0.7, Math.sqrt(cx * cx + cy * cy));
+
+        // Large-scale movement (slow, big blobs)
+        const n1 = noise(u * 0.35 + t, v * 0.35 + t * 0.7);
+        const n2 = noise(u * 0.35 - t * 0.8 + 50, v * 0.35 + t * 0.5 + 50);
+
+        // Medium-scale detail (adds organic movement)
+        const n3 = noise(u * 0.9 + t * 1.2 + 100, v * 0.9 - t);
+        const n4 = noise(u * 0.9 - t, v * 0.9 + t * 1.1 + 100);
+
+        // Combine two octaves
+        const warpX = (n1 * 0.65 + n3 * 0.35) * centerWeight;
+        const warpY = (n2 * 0.65 + n4 * 0.35) * centerWeight;
+
+        sampleBilinear(
+          texture,
+          clamp01(u + warpX * params.warpIntensity),
+          clamp01(v + warpY * params.warpIntensity),
+          color,
+        );
+        this.warpBuffer[i] = color[0];
+        this.warpBuffer[i + 1] = color[1];
+        this.warpBuffer[i + 2] = color[2];
+        this.warpBuffer[i + 3] = color[3];
+        i += 4;
+      }
+    }
+  }
+
+  private composite(params: FrameParams): void {
+    const width = this.renderWidth;
+    const height = this.renderHeight;
+    const texture: Buffer = {
+      data: this.warpBuffer,
+      width,
+      height,
+      range: 1,
+    };
+    const frame = Math.floor(params.time * 60);
+    const color = this.sample;
+    const [centerX, centerY] = params.vignetteCenter;
+    const [vignetteR, vignetteG, vignetteB] = params.vignetteColor;
+    const shortSide = Math.min(width, height);
+    const aspectX = params.vignetteShape === "circular" ? width / shortSide : 1;
+    const aspectY =
+      params.vignetteShape === "circular" ? height / shortSide : 1;
+
+    for (let y = 0; y < height; y++) {
+      const v = (y + 0.5) / height;
+      // Output rows are top-down like ImageData, framebuffer rows are bottom-up
+      let o = (height - 1 - y) * width * 4;
+      for (let x = 0; x < width; x++) {
+        const u = (x + 0.5) / width;
+
+        sampleBilinear(
+          texture,
+          clamp01((u - 0.5) / params.scale + 0.5),
+          clamp01((v - 0.5) / params.scale + 0.5),
+          color,
+        );
+
+        // Vignette: quadratic falloff past the radius, toward the vignette color
+        const cx = (u - centerX) * aspectX;
+        const cy = (1 - v - centerY) * aspectY;
+        const edge = clamp01(
+          (Math.sqrt(cx * cx + cy * cy) - params.vignetteRadius) /
+            params.vignetteSoftness,
+        );
+        const vignette = edge * edge * params.vignetteIntensity;
+        let r = mix(color[0], vignetteR, vignette);
+        let g = mix(color[1], vignetteG, vignette);
+        let b = mix(color[2], vignetteB, vignette);
+
+        const gray = r * 0.299 + g * 0.587 + b * 0.114;
+        r = mix(gray, r, params.saturation);
+        g = mix(gray, g, params.saturation);
+        b = mix(gray, b, params.saturation);
+
+        const noise = (hash(x, y, frame) - 0.5) * params.dithering;
+
+        this.output[o] = (r + noise) * 255;
+        this.output[o + 1] = (g + noise) * 255;
+        this.output[o + 2] = (b + noise) * 255;
+        this.output[o + 3] = color[3] * 255;
+        o += 4;
+      }
+    }
+  }
+
+  private present(): void {
+    if (!this.context || !this.staging || !this.stagingContext) return;
+
+    const image = this.stagingContext.createImageData(
+      this.renderWidth,
+      this.renderHeight,
+    );
+    image.data.set(this.output);
+    this.stagingContext.putImageData(image, 0, 0);
+
+    this.context.imageSmoothingEnabled = true;
+    this.context.clearRect(0, 0, this.canvasWidth, this.canvasHeight);
+    this.context.drawImage(
+      this.staging,
+      0,
+      0,
+      this.canvasWidth,
+      this.canvasHeight,
+    );
+  }
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a + (b - a) * t;
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return x < min ? min : x > max ? max : x;
+}
+
+function clamp01(x: number): number {
+  return clamp(x, 0, 1);
+}
+
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp01((x - edge0) / (edge1 - edge0));
+  return t * t * (3 - 2 * t);
+}
+
+function fract(x: number): number {
+  return x - Math.floor(x);
+}
+
+/**
+ * Bilinear texture lookup with clamp-to-edge, matching LINEAR filtering
+ */
+function sampleBilinear(
+  texture: Buffer,
+  u: number,
+  v: number,
+  out: [number, number, number, number],
+): void {
+  const { data, width, height, range } = texture;
+  const x = u * width - 0.5;
+  const y = v * height - 0.5;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const left = Math.min(width - 1, Math.max(0, x0));
+  const right = Math.min(width - 1, Math.max(0, x0 + 1));
+  const top = Math.min(height - 1, Math.max(0, y0));
+  const bottom = Math.min(height - 1, Math.max(0, y0 + 1));
+
+  const i00 = (top * width + left) * 4;
+  const i10 = (top * width + right) * 4;
+  const i01 = (bottom * width + left) * 4;
+  const i11 = (bottom * width + right) * 4;
+
+  for (let c = 0; c < 4; c++) {
+    const a = mix(data[i00 + c]!, data[i10 + c]!, fx);
+    const b = mix(data[i01 + c]!, data[i11 + c]!, fx);
+    out[c] = mix(a, b, fy) * range;
+  }
+}
+
+/**
+ * Mix two album buffers with the transition's mask, a port of BLEND_SHADER
+ */
+function blendAlbums(
+  from: Float32Array,
+  to: Float32Array,
+  output: Float32Array,
+  size: number,
+  params: Pick<FrameParams, "blend" | "transition">,
+): void {
+  const [mode, directionX, directionY] = transitionMode(params.transition);
+  const front = params.blend * (1 + TRANSITION_SOFTNESS);
+
+  let i = 0;
+  for (let y = 0; y < size; y++) {
+    const v = (y + 0.5) / size;
+    for (let x = 0; x < size; x++) {
+      const u = (x + 0.5) / size;
+
+      // When the front reaches each texel, 0-1
+      let position = 0;
+      if (mode === 3) {
+        position = valueNoise(u * 6, v * 6);
+      } else if (mode === 2) {
+        position = Math.hypot(u - 0.5, v - 0.5) * Math.SQRT2;
+      } else if (mode === 1) {
+        position = (u - 0.5) * directionX + (v - 0.5) * directionY + 0.5;
+      }
+
+      const amount =
+        mode === 0
+          ? params.blend
+          : smoothstep(position, position + TRANSITION_SOFTNESS, front);
+      for (let c = 0; c < 4; c++) {
+        output[i + c] = mix(from[i + c]!, to[i + c]!, amount);
+      }
+      i += 4;
+    }
+  }
+}
+
+/**
+ * One Kawase pass: average four bilinear taps at ±offset texels
+ */
+function kawasePass(
+  texture: Buffer,
+  target: Target,
+  offset: number,
+  color: [number, number, number, number],
+): void {
+  const { data, width, height } = target;
+  const stepU = offset / texture.width;
+  const stepV = offset / texture.height;
+
+  let i = 0;
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let tap = 0; tap < 4; tap++) {
+        const du = tap & 1 ? stepU : -stepU;
+        const dv = tap & 2 ? stepV : -stepV;
+        sampleBilinear(texture, u + du, v + dv, color);
+        r += color[0];
+        g += color[1];
+        b += color[2];
+        a += color[3];
+      }
+      data[i] = r * 0.25;
+      data[i + 1] = g * 0.25;
+      data[i + 2] = b * 0.25;
+      data[i + 3] = a * 0.25;
+      i += 4;
+    }
+  }
+}
+
+/**
+ * One separable Gaussian pass along (du, dv), a port of GAUSSIAN_BLUR_SHADER
+ */
+function gaussianPass(
+  texture: Buffer,
+  target: Target,
+  du: number,
+  dv: number,
+  sigma: number,
+  color: [number, number, number, number],
+): void {
+  const { data, width, height } = target;
+
+  // Wide kernels step over several texels, linear filtering fills the gaps
+  const stride = Math.max(1, sigma / MAX_GAUSSIAN_SIGMA);
+  const taps: [offset: number, weight: number][] = [];
+  let total = 1;
+  for (let tap = 1; tap <= 24; tap++) {
+    const offset = tap * stride;
+    if (offset > sigma * 3) break;
+    const weight = Math.exp((-0.5 * offset * offset) / (sigma * sigma));
+    taps.push([offset, weight]);
+    total += weight * 2;
+  }
+
+  let i = 0;
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      sampleBilinear(texture, u, v, color);
+      let r = color[0];
+      let g = color[1];
+      let b = color[2];
+      let a = color[3];
+      for (const [offset, weight] of taps) {
+        for (const sign of [1, -1]) {
+          sampleBilinear(
+            texture,
+            u + du * offset * sign,
+            v + dv * offset * sign,
+            color,
+          );
+          r += color[0] * weight;
+          g += color[1] * weight;
+          b += color[2] * weight;
+          a += color[3] * weight;
+        }
+      }
+      data[i] = r / total;
+      data[i + 1] = g / total;
+      data[i + 2] = b / total;
+      data[i + 3] = a / total;
+      i += 4;
+    }
+  }
+}
+
+// Dual Kawase taps as [x, y, weight], in half texels of the target
+const DUAL_DOWN_TAPS = [
+  [0, 0, 4],
+  [-1, -1, 1],
+  [1, 1, 1],
+  [1, -1, 1],
+  [-1, 1, 1],
+] as const;
+const DUAL_UP_TAPS = [
+  [-2, 0, 1],
+  [-1, 1, 2],
+  [0, 2, 1],
+  [1, 1, 2],
+  [2, 0, 1],
+  [1, -1, 2],
+  [0, -2, 1],
+  [-1, -1, 2],
+] as const;
+
+/**
+ * One dual Kawase downsample or upsample pass into `target`
+ */
+function dualKawasePass(
+  texture: Buffer,
+  target: Target,
+  up: boolean,
+  color: [number, number, number, number],
+): void {
+  const { data, width, height } = target;
+  const taps = up ? DUAL_UP_TAPS : DUAL_DOWN_TAPS;
+  const total = up ? 12 : 8;
+  const halfU = 0.5 / width;
+  const halfV = 0.5 / height;
+
+  let i = 0;
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (const [tx, ty, weight] of taps) {
+        sampleBilinear(texture, u + tx * halfU, v + ty * halfV, color);
+        r += color[0] * weight;
+        g += color[1] * weight;
+        b += color[2] * weight;
+        a += color[3] * weight;
+      }
+      data[i] = r / total;
+      data[i + 1] = g / total;
+      data[i + 2] = b / total;
+      data[i + 3] = a / total;
+      i += 4;
+    }
+  }
+}
+
+function mod289(x: number): number {
+  return x - Math.floor(x * (1 / 289)) * 289;
+}
+
+function permute(x: number): number {
+  return mod289((x * 34 + 1) * x);
+}
+
+/**
+ * 2D simplex noise, a scalar port of the GLSL snoise
+ */
+function snoise(vx: number, vy: number): number {
+  const C0 = 0.211324865405187;
+  const C1 = 0.366025403784439;
+  const C2 = -0.577350269189626;
+  const C3 = 0.024390243902439;
+
+  const s = (vx + vy) * C1;
+  let ix = Math.floor(vx + s);
+  let iy = Math.floor(vy + s);
+  const t = (ix + iy) * C0;
+  const x0x = vx - ix + t;
+  const x0y = vy - iy + t;
+
+  const i1x = x0x > x0y ? 1 : 0;
+  const i1y = x0x > x0y ? 0 : 1;
+
+  const x12x = x0x + C0 - i1x;
+  const x12y = x0y + C0 - i1y;
+  const x12z = x0x + C2;
+  const x12w = x0y + C2;
+
+  ix = mod289(ix);
+  iy = mod289(iy);
+  const p0 = permute(permute(iy) + ix);
+  const p1 = permute(permute(iy + i1y) + ix + i1x);
+  const p2 = permute(permute(iy + 1) + ix + 1);
+
+  let m0 = Math.max(0.5 - (x0x * x0x + x0y * x0y), 0);
+  let m1 = Math.max(0.5 - (x12x * x12x + x12y * x12y), 0);
+  let m2 = Math.max(0.5 - (x12z * x12z + x12w * x12w), 0);
+  m0 *= m0;
+  m0 *= m0;
+  m1 *= m1;
+  m1 *= m1;
+  m2 *= m2;
+  m2 *= m2;
+
+  const gx0 = 2 * fract(p0 * C3) - 1;
+  const gx1 = 2 * fract(p1 * C3) - 1;
+  const gx2 = 2 * fract(p2 * C3) - 1;
+  const h0 = Math.abs(gx0) - 0.5;
+  const h1 = Math.abs(gx1) - 0.5;
+  const h2 = Math.abs(gx2) - 0.5;
+  const a0 = gx0 - Math.floor(gx0 + 0.5);
+  const a1 = gx1 - Math.floor(gx1 + 0.5);
+  const a2 = gx2 - Math.floor(gx2 + 0.5);
+
+  m0 *= 1.79284291400159 - 0.85373472095314 * (a0 * a0 + h0 * h0);
+  m1 *= 1.79284291400159 - 0.85373472095314 * (a1 * a1 + h1 * h1);
+  m2 *= 1.79284291400159 - 0.85373472095314 * (a2 * a2 + h2 * h2);
+
+  const g0 = a0 * x0x + h0 * x0y;
+  const g1 = a1 * x12x + h1 * x12y;
+  const g2 = a2 * x12z + h2 * x12w;
+  return 130 * (m0 * g0 + m1 * g1 + m2 * g2);
+}
+
+// Dissolve pattern, a port of the blend shader's valueNoise(vec2)
+function valueNoise(x: number, y: number): number {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  let fx = x - ix;
+  let fy = y - iy;
+  fx = fx * fx * (3 - 2 * fx);
+  fy = fy * fy * (3 - 2 * fy);
+  return mix(
+    mix(hash(ix, iy, 0), hash(ix + 1, iy, 0), fx),
+    mix(hash(ix, iy + 1, 0), hash(ix + 1, iy + 1, 0), fx),
+    fy,
+  );
+}
+
+/**
+ * Dithering hash, a port of the output shader's hash(vec3)
+ */
+function hash(x: number, y: number, z: number): number {
+  let px = fract(x * 0.1031);
+  let py = fract(y * 0.1031);
+  let pz = fract(z * 0.1031);
+  const d = px * (pz + 31.32) + py * (py + 31.32) + pz * (px + 31.32);
+  px += d;
+  py += d;
+  pz += d;
+  return fract((px + py) * pz);
+}
@@ -0,0 +1,248 @@
+import type {
+  KawarpBackend,
+  KawarpBlurAlgorithm,
+  KawarpPassOptions,
+  KawarpPixels,
+  KawarpTransition,
+  KawarpUniformValue,
+  KawarpVignetteShape,
+} from "../types.js";
+
+// Default size for blur operations (small = fast)
+export const BLUR_SIZE = 128;
+
+// Largest sigma of one Gaussian pass, in texels
+export const MAX_GAUSSIAN_SIGMA = 8;
+
+// Source reductions stop at the smallest blur resolution
+const MIN_SOURCE_LEVEL = 32;
+
+// Gaussian passes are repeated at most this many times per direction
+const MAX_GAUSSIAN_ITERATIONS = 4;
+
+/**
+ * Per-axis standard deviation, in blur texels, of `passes` Kawase passes.
+ * Used to give every algorithm roughly the same strength for a pass count.
+ */
+export function kawaseSigma(passes: number): number {
+  let variance = 0;
+  for (let i = 0; i < passes; i++) {
+    // Each tap sits between texels, bilinear filtering adds a quarter texel²
+    variance += (i + 0.5) ** 2 + 0.25;
+  }
+  return Math.sqrt(variance);
+}
+
+/**
+ * Number of halvings in the dual Kawase chain, stopping at 4x4 texels
+ */
+export function dualKawaseLevels(passes: number, resolution: number): number {
+  const maxLevels = Math.max(1, Math.floor(Math.log2(resolution)) - 2);
+  const levels = Math.round(Math.log2(kawaseSigma(passes)));
+  return Math.max(1, Math.min(maxLevels, levels));
+}
+
+/**
+ * Split a Gaussian blur into repeated separable passes, keeping each pass
+ * narrow enough for the shader's fixed tap count
+ */
+export function gaussianPasses(
+  passes: number,
+  resolution: number,
+): { sigma: number; iterations: number } {
+  const sigma = Math.min(kawaseSigma(passes), resolution / 4);
+  const iterations = Math.min(
+    MAX_GAUSSIAN_ITERATIONS,
+    Math.ceil((sigma / MAX_GAUSSIAN_SIGMA) ** 2),
+  );
+  return { sigma: sigma / Math.sqrt(iterations), iterations };
+}
+
+/**
+ * Parameters for the tint + blur step that runs when the source changes
+ */
+export interface BlurParams {
+  tintColor: [number, number, number];
+  tintIntensity: number;
+  blurPasses: number;
+  algorithm: KawarpBlurAlgorithm;
+  /** Width and height of the blur and album targets */
+  resolution: number;
+  /** Region of the source to sample, as [x, y, width, height] in UVs */
+  sourceRect: [number, number, number, number];
+  /** Crop that samples are clamped to, as [x0, y0, x1, y1] in UVs */
+  sourceBounds: [number, number, number, number];
+}
+
+// Width of the soft edge of wipe, radial and dissolve transitions, in UVs
+export const TRANSITION_SOFTNESS = 0.2;
+
+/**
+ * Blend shader mode for a transition style (0 = crossfade, 1 = wipe,
+ * 2 = radial, 3 = dissolve) and the direction a wipe travels in, in album
+ * UVs. Albums are presented with V = 0 at the bottom of the canvas.
+ */
+export function transitionMode(
+  transition: KawarpTransition,
+): [mode: number, directionX: number, directionY: number] {
+  switch (transition) {
+    case "wipe-left":
+      return [1, -1, 0];
+    case "wipe-right":
+      return [1, 1, 0];
+    case "wipe-up":
+      return [1, 0, 1];
+    case "wipe-down":
+      return [1, 0, -1];
+    case "radial":
+      return [2, 0, 0];
+    case "dissolve":
+      return [3, 0, 0];
+    default:
+      return [0, 0, 0];
+  }
+}
+
+/**
+ * Sizes of the half-size reductions of a source, largest first, down to
+ * MIN_SOURCE_LEVEL texels on the long side
+ */
+export function sourceLevelSizes(
+  width: number,
+  height: number,
+): [number, number][] {
+  const sizes: [number, number][] = [];
+  while (Math.max(width, height) > MIN_SOURCE_LEVEL) {
+    width = Math.ceil(width / 2);
+    height = Math.ceil(height / 2);
+    sizes.push([width, height]);
+  }
+  return sizes;
+}
+
+/**
+ * Smallest source level that still has a texel for every blur texel across
+ * the sampled region, so bilinear sampling never skips texels. `sizes` starts
+ * with the full-size source.
+ */
+export function pickSourceLevel(
+  sizes: [number, number][],
+  [, , rectWidth, rectHeight]: [number, number, number, number],
+  resolution: number,
+): number {
+  let level = 0;
+  while (level + 1 < sizes.length) {
+    const [width, height] = sizes[level + 1]!;
+    if (width * rectWidth < resolution || height * rectHeight < resolution) {
+      break;
+    }
+    level++;
+  }
+  return level;
+}
+
+/**
+ * Noise domain offset for a seed. Simplex noise repeats every 289 units, so
+ * the offset stays within one period.
+ */
+export function seedOffset(seed: number): [number, number] {
+  const wrap = (x: number) => ((x % 289) + 289) % 289;
+  return [wrap(seed * 127.1), wrap(seed * 311.7)];
+}
+
+/**
+ * Parameters for the per-frame blend + warp + output steps
+ */
+export interface FrameParams {
+  /** Animation time in seconds */
+  time: number;
+  /** Transition progress from the previous to the current source (1 = done) */
+  blend: number;
+  transition: KawarpTransition;
+  warpIntensity: number;
+  /** Shifts the noise domain, see seedOffset */
+  seed: number;
+  saturation: number;
+  dithering: number;
+  scale: number;
+  vignetteIntensity: number;
+  vignetteRadius: number;
+  vignetteSoftness: number;
+  vignetteColor: [number, number, number];
+  vignetteShape: KawarpVignetteShape;
+  /** Vignette center in canvas UVs, y pointing down */
+  vignetteCenter: [number, number];
+}
+
+/**
+ * GPU side of a custom pass
+ */
+export interface RendererPass {
+  setUniform(name: string, value: KawarpUniformValue): void;
+  remove(): void;
+}
+
+/**
+ * A backend implementation of the Kawarp pipeline.
+ *
+ * Renderers own every GPU resource. The Kawarp class keeps options,
+ * animation and transition state and tells the renderer what to draw.
+ */
+export interface Renderer {
+  readonly backend: KawarpBackend;
+
+  /** Minimum milliseconds between frames, for renderers that throttle themselves */
+  readonly frameInterval?: number;
+
+  /** Replace the source image with a decoded image, canvas, bitmap or video frame */
+  uploadSource(source: TexImageSource): void;
+
+  /** Replace the source image with raw RGBA pixels */
+  uploadSourceData(data: Uint8Array, width: number, height: number): void;
+
+  /**
+   * Tint and blur the source into the current album texture.
+   * With `swap` set, the previous album texture is kept as the transition origin.
+   */
+  blurSource(params: BlurParams, swap: boolean): void;
+
+  /**
+   * Bake a running transition at `blend` into the transition origin, so the
+   * next source fades from what is on screen instead of either album
+   */
+  freezeTransition(blend: number, transition: KawarpTransition): void;
+
+  /** Resize full-resolution targets to the canvas size */
+  resize(width: number, height: number): void;
+
+  /** Draw one frame to the canvas */
+  render(params: FrameParams): void;
+
+  /** Replace the warp function, or restore the default one with undefined */
+  setWarpFunction?(source: string | undefined): void;
+
+  /** Compile a custom pass, which runs until it is removed */
+  addPass?(pass: KawarpPassOptions): RendererPass;
+
+  /** Recreate GPU resources after the context was lost and restored */
+  restore?(): void;
+
+  /** Read back the last frame drawn to the canvas */
+  readPixels?(): KawarpPixels;
+
+  /** Read back the tinted, blurred album texture of the current source */
+  readAlbum?(): KawarpPixels;
+
+  /**
+   * Draw one frame off-screen at the given size and read it back, leaving
+   * the canvas untouched. May come back smaller if the size is over a limit.
+   */
+  renderPixels?(
+    params: FrameParams,
+    width: number,
+    height: number,
+  ): KawarpPixels;
+
+  /** Release every resource held by the renderer */
+  dispose(): void;
+}
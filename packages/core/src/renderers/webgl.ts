@@ -0,0 +1,1187 @@
+import {
+  BLEND_SHADER,
+  createWarpShader,
+  DUAL_KAWASE_DOWN_SHADER,
+  DUAL_KAWASE_UP_SHADER,
+  GAUSSIAN_BLUR_SHADER,
+  KAWASE_BLUR_SHADER,
+  OUTPUT_SHADER,
+  TINT_SHADER,
+  toGLSL300,
+  VERTEX_SHADER,
+} from "../shaders/glsl.js";
+import type {
+  KawarpBackend,
+  KawarpCanvas,
+  KawarpPassOptions,
+  KawarpPassStage,
+  KawarpPixels,
+  KawarpTransition,
+  KawarpUniformValue,
+} from "../types.js";
+import {
+  clampSize,
+  getSourceSize,
+  resizePixels,
+  resizeSource,
+} from "../utils.js";
+import {
+  BLUR_SIZE,
+  type BlurParams,
+  dualKawaseLevels,
+  type FrameParams,
+  gaussianPasses,
+  pickSourceLevel,
+  type Renderer,
+  type RendererPass,
+  seedOffset,
+  sourceLevelSizes,
+  transitionMode,
+} from "./renderer.js";
+
+interface Framebuffer {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+}
+
+interface CustomPass {
+  stage: KawarpPassStage;
+  fragment: string;
+  program: WebGLProgram;
+  uniforms: Map<string, KawarpUniformValue>;
+  // Uniform locations, looked up on first use
+  locations: Map<string, WebGLUniformLocation | null>;
+}
+
+// Attribute locations shared by every program
+const ATTRIB_POSITION = 0;
+const ATTRIB_TEX_COORD = 1;
+
+/**
+ * WebGL implementation of the pipeline.
+ * Uses WebGL2 when available and falls back to WebGL1.
+ */
+export class WebGLRenderer implements Renderer {
+  private gl: WebGLRenderingContext;
+  private gl2: WebGL2RenderingContext | null = null;
+  private halfFloatExt: OES_texture_half_float | null = null;
+  private halfFloatLinearExt: OES_texture_half_float_linear | null = null;
+  private colorBufferFloatExt: EXT_color_buffer_float | null = null;
+
+  // Shader programs
+  private blurProgram!: WebGLProgram;
+  private gaussianProgram!: WebGLProgram;
+  private dualDownProgram!: WebGLProgram;
+  private dualUpProgram!: WebGLProgram;
+  private blendProgram!: WebGLProgram;
+  private tintProgram!: WebGLProgram;
+  private warpProgram!: WebGLProgram;
+  private outputProgram!: WebGLProgram;
+
+  // Buffers
+  private positionBuffer!: WebGLBuffer;
+  private texCoordBuffer!: WebGLBuffer;
+
+  // Vertex array with the quad attributes (WebGL2 only)
+  private vertexArray: WebGLVertexArrayObject | null = null;
+
+  // Source texture (original image, clamped to MAX_TEXTURE_SIZE)
+  private sourceTexture!: WebGLTexture;
+  private sourceWidth = 1;
+  private sourceHeight = 1;
+
+  // Half-size reductions of the source, so the tint pass never samples
+  // across more than two source texels per blur texel
+  private sourceLevels: Framebuffer[] = [];
+  private maxTextureSize: number;
+
+  // Small FBOs for blur (blurSize x blurSize)
+  private blurFBO1!: Framebuffer;
+  private blurFBO2!: Framebuffer;
+  private blurSize = BLUR_SIZE;
+
+  // Dual Kawase downsample chain, halving from blurSize (created on demand)
+  private dualFBOs: Framebuffer[] = [];
+
+  // Album FBOs for crossfade (blurSize x blurSize)
+  private currentAlbumFBO!: Framebuffer;
+  private nextAlbumFBO!: Framebuffer;
+
+  // Full-res FBO for warp output
+  private warpFBO!: Framebuffer;
+
+  // Custom passes, and the full-res FBO they ping-pong with (created on demand)
+  private passes: CustomPass[] = [];
+
+  // User-supplied warp function, spliced into the warp program
+  private warpFunction: string | undefined;
+  private passFBO: Framebuffer | null = null;
+  private width = 1;
+  private height = 1;
+
+  // Parameters of the last frame, redrawn off-screen to read it back since
+  // the drawing buffer isn't preserved
+  private lastParams: FrameParams | null = null;
+
+  // Cached attribute locations
+  private attribs!: {
+    position: number;
+    texCoord: number;
+  };
+
+  // Cached uniform locations
+  private uniforms!: {
+    blur: {
+      resolution: WebGLUniformLocation;
+      texture: WebGLUniformLocation;
+      offset: WebGLUniformLocation;
+    };
+    gaussian: {
+      texture: WebGLUniformLocation;
+      direction: WebGLUniformLocation;
+      sigma: WebGLUniformLocation;
+    };
+    dualDown: {
+      texture: WebGLUniformLocation;
+      halfPixel: WebGLUniformLocation;
+    };
+    dualUp: {
+      texture: WebGLUniformLocation;
+      halfPixel: WebGLUniformLocation;
+    };
+    blend: {
+      texture1: WebGLUniformLocation;
+      texture2: WebGLUniformLocation;
+      blend: WebGLUniformLocation;
+      mode: WebGLUniformLocation;
+      direction: WebGLUniformLocation;
+    };
+    warp: {
+      texture: WebGLUniformLocation;
+      time: WebGLUniformLocation;
+      intensity: WebGLUniformLocation;
+      seed: WebGLUniformLocation;
+    };
+    tint: {
+      texture: WebGLUniformLocation;
+      tintColor: WebGLUniformLocation;
+      tintIntensity: WebGLUniformLocation;
+      sourceRect: WebGLUniformLocation;
+      sourceBounds: WebGLUniformLocation;
+    };
+    output: {
+      texture: WebGLUniformLocation;
+      saturation: WebGLUniformLocation;
+      dithering: WebGLUniformLocation;
+      time: WebGLUniformLocation;
+      scale: WebGLUniformLocation;
+      resolution: WebGLUniformLocation;
+      vignetteIntensity: WebGLUniformLocation;
+      vignetteRadius: WebGLUniformLocation;
+      vignetteSoftness: WebGLUniformLocation;
+      vignetteColor: WebGLUniformLocation;
+      vignetteCenter: WebGLUniformLocation;
+      vignetteCircular: WebGLUniformLocation;
+    };
+  };
+
+  constructor(canvas: KawarpCanvas) {
+    const gl2 = canvas.getContext("webgl2");
+    const gl = gl2 ?? canvas.getContext("webgl");
+    if (!gl) throw new Error("WebGL not supported");
+    this.gl = gl;
+    this.gl2 = gl2;
+    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+    this.createResources();
+  }
+
+  get backend(): KawarpBackend {
+    return this.gl2 ? "webgl2" : "webgl";
+  }
+
+  /**
+   * Rebuild every resource after the context was restored.
+   * Texture contents are gone, so the source has to be uploaded again.
+   */
+  restore(): void {
+    this.createResources();
+  }
+
+  uploadSource(source: TexImageSource): void {
+    const gl = this.gl;
+    const [sourceWidth, sourceHeight] = getSourceSize(source);
+    const [width, height] = clampSize(
+      sourceWidth,
+      sourceHeight,
+      this.maxTextureSize,
+    );
+    const image =
+      width < sourceWidth || height < sourceHeight
+        ? resizeSource(source, width, height)
+        : source;
+
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    this.reduceSource(width, height);
+  }
+
+  uploadSourceData(data: Uint8Array, width: number, height: number): void {
+    const gl = this.gl;
+    const [fitWidth, fitHeight] = clampSize(width, height, this.maxTextureSize);
+    const pixels =
+      fitWidth < width || fitHeight < height
+        ? resizePixels(data, width, height, fitWidth, fitHeight)
+        : data;
+
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.RGBA,
+      fitWidth,
+      fitHeight,
+      0,
+      gl.RGBA,
+      gl.UNSIGNED_BYTE,
+      pixels,
+    );
+    this.reduceSource(fitWidth, fitHeight);
+  }
+
+  /**
+   * Blur the source texture into the album FBO (with tint applied before blur)
+   */
+  blurSource(params: BlurParams, swap: boolean): void {
+    const gl = this.gl;
+    this.ensureBlurSize(params.resolution);
+    const size = this.blurSize;
+
+    // Swap album FBOs - current becomes the "from", we'll render "to" into next
+    if (swap) {
+      [this.currentAlbumFBO, this.nextAlbumFBO] = [
+        this.nextAlbumFBO,
+        this.currentAlbumFBO,
+      ];
+    }
+    const targetFBO = this.nextAlbumFBO;
+
+    // Step 1: Apply tint to source texture → blurFBO1
+    gl.useProgram(this.tintProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFBO1.framebuffer);
+    gl.viewport(0, 0, size, size);
+    gl.activeTexture(gl.TEXTURE0);
+    const level = pickSourceLevel(
+      [
+        [this.sourceWidth, this.sourceHeight],
+        ...this.sourceLevels.map(({ width, height }): [number, number] => [
+          width,
+          height,
+        ]),
+      ],
+      params.sourceRect,
+      size,
+    );
+    gl.bindTexture(
+      gl.TEXTURE_2D,
+      level === 0 ? this.sourceTexture : this.sourceLevels[level - 1]!.texture,
+    );
+    gl.uniform1i(this.uniforms.tint.texture, 0);
+    gl.uniform3fv(this.uniforms.tint.tintColor, params.tintColor);
+    gl.uniform1f(this.uniforms.tint.tintIntensity, params.tintIntensity);
+    gl.uniform4fv(this.uniforms.tint.sourceRect, params.sourceRect);
+    gl.uniform4fv(this.uniforms.tint.sourceBounds, params.sourceBounds);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    // Step 2: Blur the tinted texture
+    let readFBO: Framebuffer;
+    switch (params.algorithm) {
+      case "dual-kawase":
+        readFBO = this.dualKawaseBlur(params.blurPasses);
+        break;
+      case "gaussian":
+        readFBO = this.gaussianBlur(params.blurPasses);
+        break;
+      default:
+        readFBO = this.kawaseBlur(params.blurPasses);
+    }
+
+    // Custom passes on the blurred image
+    readFBO = this.runPasses(
+      "afterBlur",
+      readFBO,
+      readFBO === this.blurFBO1 ? this.blurFBO2 : this.blurFBO1,
+      size,
+      size,
+      0,
+    );
+
+    // Step 3: Copy final blur result to target FBO
+    gl.useProgram(this.blurProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, targetFBO.framebuffer);
+    gl.viewport(0, 0, size, size);
+    gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+    gl.uniform2f(this.uniforms.blur.resolution, size, size);
+    gl.uniform1i(this.uniforms.blur.texture, 0);
+    gl.uniform1f(this.uniforms.blur.offset, 0.0);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  freezeTransition(blend: number, transition: KawarpTransition): void {
+    this.blendAlbums(blend, transition);
+    [this.currentAlbumFBO, this.blurFBO1] = [
+      this.blurFBO1,
+      this.currentAlbumFBO,
+    ];
+  }
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    // Only warpFBO and passFBO need to be canvas size
+    if (this.warpFBO) this.deleteFramebuffer(this.warpFBO);
+    this.warpFBO = this.createFramebuffer(width, height, true);
+    if (this.passFBO) {
+      this.deleteFramebuffer(this.passFBO);
+      this.passFBO = null;
+    }
+  }
+
+  /**
+   * Main render loop - very efficient!
+   * Just: blend album FBOs → domain warp → output
+   */
+  render(params: FrameParams): void {
+    this.lastParams = params;
+    this.draw(params, null);
+  }
+
+  renderPixels(
+    params: FrameParams,
+    width: number,
+    height: number,
+  ): KawarpPixels {
+    [width, height] = clampSize(width, height, this.maxTextureSize);
+    const canvasWidth = this.width;
+    const canvasHeight = this.height;
+    const { warpFBO, passFBO } = this;
+
+    // Swap in targets of the requested size for one frame
+    const target = this.createFramebuffer(width, height);
+    this.width = width;
+    this.height = height;
+    this.warpFBO = this.createFramebuffer(width, height, true);
+    this.passFBO = null;
+    try {
+      this.draw(params, target.framebuffer);
+      return this.readFramebuffer(target.framebuffer, width, height);
+    } finally {
+      this.deleteFramebuffer(this.warpFBO);
+      if (this.passFBO) this.deleteFramebuffer(this.passFBO);
+      this.deleteFramebuffer(target);
+      this.width = canvasWidth;
+      this.height = canvasHeight;
+      this.warpFBO = warpFBO;
+      this.passFBO = passFBO;
+    }
+  }
+
+  /**
+   * Blend, warp, run custom passes and output into `target`, or the canvas
+   * when it is null
+   */
+  private draw(params: FrameParams, target: WebGLFramebuffer | null): void {
+    const gl = this.gl;
+    const width = this.width;
+    const height = this.height;
+
+    // Step 1: Blend album FBOs (or use current if not transitioning)
+    let blendedTexture = this.nextAlbumFBO.texture;
+
+    if (params.blend < 1.0) {
+      this.blendAlbums(params.blend, params.transition);
+      blendedTexture = this.blurFBO1.texture;
+    }
+
+    // Step 2: Warp upscales the blended result to full resolution
+    gl.useProgram(this.warpProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.warpFBO.framebuffer);
+    gl.viewport(0, 0, width, height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, blendedTexture);
+    gl.uniform1i(this.uniforms.warp.texture, 0);
+    gl.uniform1f(this.uniforms.warp.time, params.time);
+    gl.uniform1f(this.uniforms.warp.intensity, params.warpIntensity);
+    gl.uniform2fv(this.uniforms.warp.seed, seedOffset(params.seed));
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    // Step 3: Custom passes on the warped image
+    let warped = this.warpFBO;
+    if (this.passes.some((pass) => pass.stage !== "afterBlur")) {
+      this.passFBO ??= this.createFramebuffer(width, height, true);
+      warped = this.runPasses(
+        "afterWarp",
+        warped,
+        this.passFBO,
+        width,
+        height,
+        params.time,
+      );
+      warped = this.runPasses(
+        "beforeOutput",
+        warped,
+        warped === this.warpFBO ? this.passFBO : this.warpFBO,
+        width,
+        height,
+        params.time,
+      );
+    }
+
+    // Step 4: Output with vignette, saturation and dithering
+    gl.useProgram(this.outputProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target);
+    gl.viewport(0, 0, width, height);
+    gl.bindTexture(gl.TEXTURE_2D, warped.texture);
+    gl.uniform1i(this.uniforms.output.texture, 0);
+    gl.uniform1f(this.uniforms.output.saturation, params.saturation);
+    gl.uniform1f(this.uniforms.output.dithering, params.dithering);
+    gl.uniform1f(this.uniforms.output.time, params.time);
+    gl.uniform1f(this.uniforms.output.scale, params.scale);
+    gl.uniform2f(this.uniforms.output.resolution, width, height);
+    gl.uniform1f(
+      this.uniforms.output.vignetteIntensity,
+      params.vignetteIntensity,
+    );
+    gl.uniform1f(this.uniforms.output.vignetteRadius, params.vignetteRadius);
+    gl.uniform1f(
+      this.uniforms.output.vignetteSoftness,
+      params.vignetteSoftness,
+    );
+    gl.uniform3fv(this.uniforms.output.vignetteColor, params.vignetteColor);
+    gl.uniform2fv(this.uniforms.output.vignetteCenter, params.vignetteCenter);
+    gl.uniform1f(
+      this.uniforms.output.vignetteCircular,
+      params.vignetteShape === "circular" ? 1 : 0,
+    );
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  /**
+   * Rebuild the warp program around a custom warp function, or the default
+   * one when `source` is undefined. Falls back to the default warp and
+   * rethrows if the function fails to compile.
+   */
+  setWarpFunction(source: string | undefined): void {
+    let program: WebGLProgram;
+    let compileError: unknown = null;
+    try {
+      program = this.createProgram(VERTEX_SHADER, createWarpShader(source));
+    } catch (error) {
+      compileError = error;
+      source = undefined;
+      program = this.createProgram(VERTEX_SHADER, createWarpShader());
+    }
+
+    this.gl.deleteProgram(this.warpProgram);
+    this.warpProgram = program;
+    this.warpFunction = source;
+    this.uniforms.warp = this.getWarpUniforms();
+    if (compileError) throw compileError;
+  }
+
+  addPass(options: KawarpPassOptions): RendererPass {
+    const pass: CustomPass = {
+      stage: options.stage,
+      fragment: options.fragment,
+      program: this.createProgram(VERTEX_SHADER, options.fragment),
+      uniforms: new Map(Object.entries(options.uniforms ?? {})),
+      locations: new Map(),
+    };
+    this.passes.push(pass);
+
+    return {
+      setUniform: (name, value) => {
+        pass.uniforms.set(name, value);
+      },
+      remove: () => {
+        const index = this.passes.indexOf(pass);
+        if (index === -1) return;
+        this.passes.splice(index, 1);
+        this.gl.deleteProgram(pass.program);
+      },
+    };
+  }
+
+  readPixels(): KawarpPixels {
+    if (!this.lastParams) {
+      const { width, height } = this;
+      return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+    }
+    return this.renderPixels(this.lastParams, this.width, this.height);
+  }
+
+  private readFramebuffer(
+    framebuffer: WebGLFramebuffer,
+    width: number,
+    height: number,
+  ): KawarpPixels {
+    const gl = this.gl;
+    const pixels = new Uint8Array(width * height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+
+    // Framebuffer rows are bottom-up
+    const data = new Uint8ClampedArray(pixels.length);
+    const rowSize = width * 4;
+    for (let y = 0; y < height; y++) {
+      const row = pixels.subarray(y * rowSize, (y + 1) * rowSize);
+      data.set(row, (height - 1 - y) * rowSize);
+    }
+    return { width, height, data };
+  }
+
+  readAlbum(): KawarpPixels {
+    const gl = this.gl;
+    const size = this.blurSize;
+
+    // Half float albums can't be read as bytes everywhere, copy to RGBA8 first
+    const target = this.createFramebuffer(size, size);
+    gl.useProgram(this.blurProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+    gl.viewport(0, 0, size, size);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.nextAlbumFBO.texture);
+    gl.uniform2f(this.uniforms.blur.resolution, size, size);
+    gl.uniform1i(this.uniforms.blur.texture, 0);
+    gl.uniform1f(this.uniforms.blur.offset, 0.0);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+
+    const data = new Uint8ClampedArray(size * size * 4);
+    gl.readPixels(0, 0, size, size, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    this.deleteFramebuffer(target);
+    return { width: size, height: size, data };
+  }
+
+  dispose(): void {
+    const gl = this.gl;
+
+    gl.deleteProgram(this.blurProgram);
+    gl.deleteProgram(this.gaussianProgram);
+    gl.deleteProgram(this.dualDownProgram);
+    gl.deleteProgram(this.dualUpProgram);
+    gl.deleteProgram(this.blendProgram);
+    gl.deleteProgram(this.tintProgram);
+    gl.deleteProgram(this.warpProgram);
+    gl.deleteProgram(this.outputProgram);
+
+    gl.deleteBuffer(this.positionBuffer);
+    gl.deleteBuffer(this.texCoordBuffer);
+    gl.deleteTexture(this.sourceTexture);
+    for (const fbo of this.sourceLevels) this.deleteFramebuffer(fbo);
+    this.sourceLevels = [];
+    if (this.gl2 && this.vertexArray) {
+      this.gl2.deleteVertexArray(this.vertexArray);
+    }
+
+    this.deleteBlurTargets();
+    this.deleteFramebuffer(this.warpFBO);
+
+    for (const pass of this.passes) gl.deleteProgram(pass.program);
+    this.passes = [];
+    if (this.passFBO) this.deleteFramebuffer(this.passFBO);
+    this.passFBO = null;
+  }
+
+  private createResources(): void {
+    const gl = this.gl;
+    const gl2 = this.gl2;
+
+    // Extension objects don't survive a context loss, so they're fetched here
+    if (gl2) {
+      // RGBA16F is filterable in WebGL2 but only renderable with this extension
+      this.colorBufferFloatExt = gl2.getExtension("EXT_color_buffer_float");
+    } else {
+      this.halfFloatExt = gl.getExtension("OES_texture_half_float");
+      this.halfFloatLinearExt = gl.getExtension(
+        "OES_texture_half_float_linear",
+      );
+    }
+
+    // Create shader programs
+    this.blurProgram = this.createProgram(VERTEX_SHADER, KAWASE_BLUR_SHADER);
+    this.gaussianProgram = this.createProgram(
+      VERTEX_SHADER,
+      GAUSSIAN_BLUR_SHADER,
+    );
+    this.dualDownProgram = this.createProgram(
+      VERTEX_SHADER,
+      DUAL_KAWASE_DOWN_SHADER,
+    );
+    this.dualUpProgram = this.createProgram(
+      VERTEX_SHADER,
+      DUAL_KAWASE_UP_SHADER,
+    );
+    this.blendProgram = this.createProgram(VERTEX_SHADER, BLEND_SHADER);
+    this.tintProgram = this.createProgram(VERTEX_SHADER, TINT_SHADER);
+    this.warpProgram = this.createProgram(
+      VERTEX_SHADER,
+      createWarpShader(this.warpFunction),
+    );
+    this.outputProgram = this.createProgram(VERTEX_SHADER, OUTPUT_SHADER);
+
+    // Attribute locations are bound before linking, so they match across programs
+    this.attribs = {
+      position: ATTRIB_POSITION,
+      texCoord: ATTRIB_TEX_COORD,
+    };
+
+    // Cache uniform locations
+    this.uniforms = {
+      blur: {
+        resolution: gl.getUniformLocation(this.blurProgram, "u_resolution")!,
+        texture: gl.getUniformLocation(this.blurProgram, "u_texture")!,
+        offset: gl.getUniformLocation(this.blurProgram, "u_offset")!,
+      },
+      gaussian: {
+        texture: gl.getUniformLocation(this.gaussianProgram, "u_texture")!,
+        direction: gl.getUniformLocation(this.gaussianProgram, "u_direction")!,
+        sigma: gl.getUniformLocation(this.gaussianProgram, "u_sigma")!,
+      },
+      dualDown: {
+        texture: gl.getUniformLocation(this.dualDownProgram, "u_texture")!,
+        halfPixel: gl.getUniformLocation(this.dualDownProgram, "u_halfPixel")!,
+      },
+      dualUp: {
+        texture: gl.getUniformLocation(this.dualUpProgram, "u_texture")!,
+        halfPixel: gl.getUniformLocation(this.dualUpProgram, "u_halfPixel")!,
+      },
+      blend: {
+        texture1: gl.getUniformLocation(this.blendProgram, "u_texture1")!,
+        texture2: gl.getUniformLocation(this.blendProgram, "u_texture2")!,
+        blend: gl.getUniformLocation(this.blendProgram, "u_blend")!,
+        mode: gl.getUniformLocation(this.blendProgram, "u_mode")!,
+        direction: gl.getUniformLocation(this.blendProgram, "u_direction")!,
+      },
+      warp: this.getWarpUniforms(),
+      tint: {
+        texture: gl.getUniformLocation(this.tintProgram, "u_texture")!,
+        tintColor: gl.getUniformLocation(this.tintProgram, "u_tintColor")!,
+        tintIntensity: gl.getUniformLocation(
+          this.tintProgram,
+          "u_tintIntensity",
+        )!,
+        sourceRect: gl.getUniformLocation(this.tintProgram, "u_sourceRect")!,
+        sourceBounds: gl.getUniformLocation(
+          this.tintProgram,
+          "u_sourceBounds",
+        )!,
+      },
+      output: {
+        texture: gl.getUniformLocation(this.outputProgram, "u_texture")!,
+        saturation: gl.getUniformLocation(this.outputProgram, "u_saturation")!,
+        dithering: gl.getUniformLocation(this.outputProgram, "u_dithering")!,
+        time: gl.getUniformLocation(this.outputProgram, "u_time")!,
+        scale: gl.getUniformLocation(this.outputProgram, "u_scale")!,
+        resolution: gl.getUniformLocation(this.outputProgram, "u_resolution")!,
+        vignetteIntensity: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteIntensity",
+        )!,
+        vignetteRadius: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteRadius",
+        )!,
+        vignetteSoftness: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteSoftness",
+        )!,
+        vignetteColor: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteColor",
+        )!,
+        vignetteCenter: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteCenter",
+        )!,
+        vignetteCircular: gl.getUniformLocation(
+          this.outputProgram,
+          "u_vignetteCircular",
+        )!,
+      },
+    };
+
+    // Create buffers
+    this.positionBuffer = this.createBuffer(
+      new Float32Array([-1, -1, 1, -1, -1, 1, -1, 1, 1, -1, 1, 1]),
+    );
+    this.texCoordBuffer = this.createBuffer(
+      new Float32Array([0, 0, 1, 0, 0, 1, 0, 1, 1, 0, 1, 1]),
+    );
+
+    // Record the quad attributes once so passes only need to bind the VAO
+    if (gl2) {
+      this.vertexArray = gl2.createVertexArray();
+      gl2.bindVertexArray(this.vertexArray);
+      this.bindAttributes();
+      gl2.bindVertexArray(null);
+    }
+
+    // Create source texture, reduced again on the next upload
+    this.sourceTexture = this.createTexture();
+    this.sourceLevels = [];
+
+    this.createBlurTargets();
+
+    // Create full-res warp FBO (will be resized)
+    this.warpFBO = this.createFramebuffer(this.width, this.height, true);
+
+    // Recompile custom passes (only non-empty after a context restore)
+    for (const pass of this.passes) {
+      pass.program = this.createProgram(VERTEX_SHADER, pass.fragment);
+      pass.locations.clear();
+    }
+    this.passFBO = null;
+  }
+
+  /**
+   * Blend current → next album into blurFBO1 at small resolution
+   */
+  private blendAlbums(blend: number, transition: KawarpTransition): void {
+    const gl = this.gl;
+    gl.useProgram(this.blendProgram);
+    this.setupAttributes();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.blurFBO1.framebuffer);
+    gl.viewport(0, 0, this.blurSize, this.blurSize);
+
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.currentAlbumFBO.texture);
+    gl.uniform1i(this.uniforms.blend.texture1, 0);
+
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, this.nextAlbumFBO.texture);
+    gl.uniform1i(this.uniforms.blend.texture2, 1);
+
+    const [mode, directionX, directionY] = transitionMode(transition);
+    gl.uniform1f(this.uniforms.blend.blend, blend);
+    gl.uniform1f(this.uniforms.blend.mode, mode);
+    gl.uniform2f(this.uniforms.blend.direction, directionX, directionY);
+    gl.drawArrays(gl.TRIANGLES, 0, 6);
+  }
+
+  private createBlurTargets(): void {
+    const size = this.blurSize;
+
+    // Create small FBOs for blur operations (high precision to avoid banding)
+    this.blurFBO1 = this.createFramebuffer(size, size, true);
+    this.blurFBO2 = this.createFramebuffer(size, size, true);
+
+    // Create album FBOs for crossfade (high precision to avoid banding)
+    this.currentAlbumFBO = this.createFramebuffer(size, size, true);
+    this.nextAlbumFBO = this.createFramebuffer(size, size, true);
+
+    // The dual Kawase chain is rebuilt on demand at the new size
+    this.dualFBOs = [];
+  }
+
+  /**
+   * Halve the uploaded source repeatedly. Sampling each texel center of a
+   * half-size target lands between four source texels, so linear filtering
+   * averages them. The chain is kept while the size stays the same.
+   */
+  private reduceSource(width: number, height: number): void {
+    const gl = this.gl;
+    this.sourceWidth = width;
+    this.sourceHeight = height;
+
+    // Every level follows from the first, so comparing it is enough
+    const sizes = sourceLevelSizes(width, height);
+    const [first] = this.sourceLevels;
+    if (first?.width !== sizes[0]?.[0] || first?.height !== sizes[0]?.[1]) {
+      for (const fbo of this.sourceLevels) this.deleteFramebuffer(fbo);
+      this.sourceLevels = sizes.map(([w, h]) => this.createFramebuffer(w, h));
+    }
+
+    gl.useProgram(this.blurProgram);
+    this.setupAttributes();
+    gl.activeTexture(gl.TEXTURE0);
+    gl.uniform1i(this.uniforms.blur.texture, 0);
+    gl.uniform1f(this.uniforms.blur.offset, 0.0);
+
+    let read = this.sourceTexture;
+    for (const level of this.sourceLevels) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, level.framebuffer);
+      gl.viewport(0, 0, level.width, level.height);
+      // Unset, the texel size is infinite and 0 * inf makes NaN coordinates
+      gl.uniform2f(this.uniforms.blur.resolution, level.width, level.height);
+      gl.bindTexture(gl.TEXTURE_2D, read);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      read = level.texture;
+    }
+  }
+
+  private deleteBlurTargets(): void {
+    this.deleteFramebuffer(this.blurFBO1);
+    this.deleteFramebuffer(this.blurFBO2);
+    this.deleteFramebuffer(this.currentAlbumFBO);
+    this.deleteFramebuffer(this.nextAlbumFBO);
+    for (const fbo of this.dualFBOs) this.deleteFramebuffer(fbo);
+    this.dualFBOs = [];
+  }
+
+  /**
+   * Reallocate the blur and album FBOs when the blur resolution changes.
+   * Album contents are lost, so the caller re-blurs right after.
+   */
+  private ensureBlurSize(size: number): void {
+    if (size === this.blurSize) return;
+    this.deleteBlurTargets();
+    this.blurSize = size;
+    this.createBlurTargets();
+  }
+
+  /**
+   * Iterative Kawase: the tap offset grows by one texel each pass
+   */
+  private kawaseBlur(passes: number): Framebuffer {
+    const gl = this.gl;
+    const size = this.blurSize;
+
+    gl.useProgram(this.blurProgram);
+    this.setupAttributes();
+    gl.uniform2f(this.uniforms.blur.resolution, size, size);
+    gl.uniform1i(this.uniforms.blur.texture, 0);
+
+    let readFBO = this.blurFBO1;
+    let writeFBO = this.blurFBO2;
+
+    for (let i = 0; i < passes; i++) {
+      gl.bindFramebuffer(gl.FRAMEBUFFER, writeFBO.framebuffer);
+      gl.viewport(0, 0, size, size);
+      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+      gl.uniform1f(this.uniforms.blur.offset, i + 0.5);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      [readFBO, writeFBO] = [writeFBO, readFBO];
+    }
+    return readFBO;
+  }
+
+  /**
+   * Separable Gaussian: horizontal then vertical, repeated for wide kernels
+   */
+  private gaussianBlur(passes: number): Framebuffer {
+    const gl = this.gl;
+    const size = this.blurSize;
+    const { sigma, iterations } = gaussianPasses(passes, size);
+
+    gl.useProgram(this.gaussianProgram);
+    this.setupAttributes();
+    gl.uniform1i(this.uniforms.gaussian.texture, 0);
+    gl.uniform1f(this.uniforms.gaussian.sigma, sigma);
+
+    let readFBO = this.blurFBO1;
+    let writeFBO = this.blurFBO2;
+
+    for (let i = 0; i < iterations * 2; i++) {
+      const horizontal = i % 2 === 0;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, writeFBO.framebuffer);
+      gl.viewport(0, 0, size, size);
+      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+      gl.uniform2f(
+        this.uniforms.gaussian.direction,
+        horizontal ? 1 / size : 0,
+        horizontal ? 0 : 1 / size,
+      );
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      [readFBO, writeFBO] = [writeFBO, readFBO];
+    }
+    return readFBO;
+  }
+
+  /**
+   * Dual Kawase: downsample through a chain of half-size FBOs, then
+   * upsample back to blurSize
+   */
+  private dualKawaseBlur(passes: number): Framebuffer {
+    const gl = this.gl;
+    const levels = dualKawaseLevels(passes, this.blurSize);
+
+    while (this.dualFBOs.length < levels) {
+      const size = Math.max(1, this.blurSize >> (this.dualFBOs.length + 1));
+      this.dualFBOs.push(this.createFramebuffer(size, size, true));
+    }
+
+    // Downsample: blurFBO1 → dualFBOs[0] → ... → dualFBOs[levels - 1]
+    gl.useProgram(this.dualDownProgram);
+    this.setupAttributes();
+    gl.uniform1i(this.uniforms.dualDown.texture, 0);
+
+    let readFBO = this.blurFBO1;
+    for (let level = 0; level < levels; level++) {
+      const target = this.dualFBOs[level]!;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+      gl.viewport(0, 0, target.width, target.height);
+      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+      gl.uniform2f(
+        this.uniforms.dualDown.halfPixel,
+        0.5 / target.width,
+        0.5 / target.height,
+      );
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      readFBO = target;
+    }
+
+    // Upsample back up the chain, the last step lands in blurFBO2
+    gl.useProgram(this.dualUpProgram);
+    this.setupAttributes();
+    gl.uniform1i(this.uniforms.dualUp.texture, 0);
+
+    for (let level = levels - 2; level >= -1; level--) {
+      const target = level >= 0 ? this.dualFBOs[level]! : this.blurFBO2;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+      gl.viewport(0, 0, target.width, target.height);
+      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+      gl.uniform2f(
+        this.uniforms.dualUp.halfPixel,
+        0.5 / target.width,
+        0.5 / target.height,
+      );
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      readFBO = target;
+    }
+    return readFBO;
+  }
+
+  private getWarpUniforms(): typeof this.uniforms.warp {
+    const gl = this.gl;
+    return {
+      texture: gl.getUniformLocation(this.warpProgram, "u_texture")!,
+      time: gl.getUniformLocation(this.warpProgram, "u_time")!,
+      intensity: gl.getUniformLocation(this.warpProgram, "u_intensity")!,
+      seed: gl.getUniformLocation(this.warpProgram, "u_seed")!,
+    };
+  }
+
+  /**
+   * Run the custom passes of one stage, ping-ponging between two FBOs.
+   * Returns the FBO holding the result.
+   */
+  private runPasses(
+    stage: KawarpPassStage,
+    source: Framebuffer,
+    spare: Framebuffer,
+    width: number,
+    height: number,
+    time: number,
+  ): Framebuffer {
+    const gl = this.gl;
+    let readFBO = source;
+    let writeFBO = spare;
+
+    for (const pass of this.passes) {
+      if (pass.stage !== stage) continue;
+
+      gl.useProgram(pass.program);
+      this.setupAttributes();
+      gl.bindFramebuffer(gl.FRAMEBUFFER, writeFBO.framebuffer);
+      gl.viewport(0, 0, width, height);
+      gl.activeTexture(gl.TEXTURE0);
+      gl.bindTexture(gl.TEXTURE_2D, readFBO.texture);
+      gl.uniform1i(this.passUniform(pass, "u_texture"), 0);
+      gl.uniform2f(this.passUniform(pass, "u_resolution"), width, height);
+      gl.uniform1f(this.passUniform(pass, "u_time"), time);
+
+      for (const [name, value] of pass.uniforms) {
+        const location = this.passUniform(pass, name);
+        if (typeof value === "number") {
+          gl.uniform1f(location, value);
+        } else if (value.length === 2) {
+          gl.uniform2fv(location, value);
+        } else if (value.length === 3) {
+          gl.uniform3fv(location, value);
+        } else {
+          gl.uniform4fv(location, value);
+        }
+      }
+
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      [readFBO, writeFBO] = [writeFBO, readFBO];
+    }
+    return readFBO;
+  }
+
+  private passUniform(
+    pass: CustomPass,
+    name: string,
+  ): WebGLUniformLocation | null {
+    let location = pass.locations.get(name);
+    if (location === undefined) {
+      location = this.gl.getUniformLocation(pass.program, name);
+      pass.locations.set(name, location);
+    }
+    return location;
+  }
+
+  private setupAttributes(): void {
+    if (this.gl2) {
+      this.gl2.bindVertexArray(this.vertexArray);
+    } else {
+      this.bindAttributes();
+    }
+  }
+
+  private bindAttributes(): void {
+    const gl = this.gl;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.enableVertexAttribArray(this.attribs.position);
+    gl.vertexAttribPointer(this.attribs.position, 2, gl.FLOAT, false, 0, 0);
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.texCoordBuffer);
+    gl.enableVertexAttribArray(this.attribs.texCoord);
+    gl.vertexAttribPointer(this.attribs.texCoord, 2, gl.FLOAT, false, 0, 0);
+  }
+
+  private createShader(type: number, source: string): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error("Failed to create shader");
+
+    if (this.gl2) {
+      source = toGLSL300(
+        source,
+        type === gl.VERTEX_SHADER ? "vertex" : "fragment",
+      );
+    }
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const error = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compile error: ${error}`);
+    }
+    return shader;
+  }
+
+  private createProgram(
+    vertexSource: string,
+    fragmentSource: string,
+  ): WebGLProgram {
+    const gl = this.gl;
+    const vertexShader = this.createShader(gl.VERTEX_SHADER, vertexSource);
+    const fragmentShader = this.createShader(
+      gl.FRAGMENT_SHADER,
+      fragmentSource,
+    );
+
+    const program = gl.createProgram();
+    if (!program) throw new Error("Failed to create program");
+
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.bindAttribLocation(program, ATTRIB_POSITION, "a_position");
+    gl.bindAttribLocation(program, ATTRIB_TEX_COORD, "a_texCoord");
+    gl.linkProgram(program);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const error = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program link error: ${error}`);
+    }
+
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+    return program;
+  }
+
+  private createBuffer(data: Float32Array): WebGLBuffer {
+    const gl = this.gl;
+    const buffer = gl.createBuffer();
+    if (!buffer) throw new Error("Failed to create buffer");
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+    return buffer;
+  }
+
+  private createTexture(): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) throw new Error("Failed to create texture");
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    return texture;
+  }
+
+  private createFramebuffer(
+    width: number,
+    height: number,
+    useHighPrecision = false,
+  ): Framebuffer {
+    const gl = this.gl;
+    const texture = this.createTexture();
+
+    if (this.gl2) {
+      const gl2 = this.gl2;
+      const canUseHalfFloat = useHighPrecision && this.colorBufferFloatExt;
+      gl2.texImage2D(
+        gl2.TEXTURE_2D,
+        0,
+        canUseHalfFloat ? gl2.RGBA16F : gl2.RGBA8,
+        width,
+        height,
+        0,
+        gl2.RGBA,
+        canUseHalfFloat ? gl2.HALF_FLOAT : gl2.UNSIGNED_BYTE,
+        null,
+      );
+    } else {
+      const canUseHalfFloat =
+        useHighPrecision && this.halfFloatExt && this.halfFloatLinearExt;
+      const type = canUseHalfFloat
+        ? this.halfFloatExt!.HALF_FLOAT_OES
+        : gl.UNSIGNED_BYTE;
+
+      gl.texImage2D(
+        gl.TEXTURE_2D,
+        0,
+        gl.RGBA,
+        width,
+        height,
+        0,
+        gl.RGBA,
+        type,
+        null,
+      );
+    }
+
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) throw new Error("Failed to create framebuffer");
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(
+      gl.FRAMEBUFFER,
+      gl.COLOR_ATTACHMENT0,
+      gl.TEXTURE_2D,
+      texture,
+      0,
+    );
+    return { framebuffer, texture, width, height };
+  }
+
+  private deleteFramebuffer(fbo: Framebuffer): void {
+    this.gl.deleteFramebuffer(fbo.framebuffer);
+    this.gl.deleteTexture(fbo.texture);
+  }
+}
@@ -0,0 +1,752 @@
+import {
+  BLEND_SHADER,
+  DOMAIN_WARP_SHADER,
+  DUAL_KAWASE_DOWN_SHADER,
+  DUAL_KAWASE_UP_SHADER,
+  GAUSSIAN_BLUR_SHADER,
+  KAWASE_BLUR_SHADER,
+  OUTPUT_SHADER,
+  QUAD_SHADER,
+  TINT_SHADER,
+} from "../shaders/wgsl.js";
+import type {
+  KawarpBackend,
+  KawarpCanvas,
+  KawarpTransition,
+} from "../types.js";
+import {
+  clampSize,
+  getSourceSize,
+  resizePixels,
+  resizeSource,
+} from "../utils.js";
+import {
+  BLUR_SIZE,
+  type BlurParams,
+  dualKawaseLevels,
+  type FrameParams,
+  gaussianPasses,
+  pickSourceLevel,
+  type Renderer,
+  seedOffset,
+  sourceLevelSizes,
+  transitionMode,
+} from "./renderer.js";
+
+// Intermediate targets use half floats to avoid banding
+const FLOAT_FORMAT: GPUTextureFormat = "rgba16float";
+
+// Blur uniforms are written once per pass, each in its own aligned slot
+const UNIFORM_SLOT_SIZE = 256;
+const MAX_BLUR_PASSES = 40;
+
+/**
+ * WebGPU implementation of the pipeline, rendering with a caller-provided device.
+ */
+export class WebGPURenderer implements Renderer {
+  readonly backend: KawarpBackend = "webgpu";
+
+  private device: GPUDevice;
+  private context: GPUCanvasContext;
+  private ownsDevice: boolean;
+  private sampler: GPUSampler;
+
+  // Render pipelines
+  private blurPipeline: GPURenderPipeline;
+  private gaussianPipeline: GPURenderPipeline;
+  private dualDownPipeline: GPURenderPipeline;
+  private dualUpPipeline: GPURenderPipeline;
+  private blendPipeline: GPURenderPipeline;
+  private tintPipeline: GPURenderPipeline;
+  private warpPipeline: GPURenderPipeline;
+  private outputPipeline: GPURenderPipeline;
+
+  // Uniform buffers
+  private blurUniforms: GPUBuffer;
+  private blendUniforms: GPUBuffer;
+  private tintUniforms: GPUBuffer;
+  private warpUniforms: GPUBuffer;
+  private outputUniforms: GPUBuffer;
+
+  // Source texture (original image, clamped to maxTextureDimension2D),
+  // recreated when the size changes
+  private sourceTexture: GPUTexture;
+
+  // Half-size reductions of the source, so the tint pass never samples
+  // across more than two source texels per blur texel
+  private sourceLevels: GPUTexture[] = [];
+  private reducePipeline: GPURenderPipeline;
+
+  // Small textures for blur (blurSize x blurSize)
+  private blurTexture1!: GPUTexture;
+  private blurTexture2!: GPUTexture;
+  private blurBindGroup1!: GPUBindGroup;
+  private blurBindGroup2!: GPUBindGroup;
+  private blurSize = BLUR_SIZE;
+
+  // Dual Kawase downsample chain, halving from blurSize (created on demand)
+  private dualTextures: GPUTexture[] = [];
+
+  // Album textures for crossfade (blurSize x blurSize)
+  private currentAlbumTexture!: GPUTexture;
+  private nextAlbumTexture!: GPUTexture;
+
+  // Full-res texture for warp output
+  private warpTexture: GPUTexture;
+  private width = 1;
+  private height = 1;
+
+  constructor(canvas: KawarpCanvas, device: GPUDevice, ownsDevice = false) {
+    const context = canvas.getContext("webgpu");
+    if (!context) throw new Error("WebGPU not supported");
+    this.device = device;
+    this.context = context;
+    this.ownsDevice = ownsDevice;
+
+    const format = navigator.gpu.getPreferredCanvasFormat();
+    context.configure({ device, format, alphaMode: "premultiplied" });
+
+    this.sampler = device.createSampler({
+      magFilter: "linear",
+      minFilter: "linear",
+      addressModeU: "clamp-to-edge",
+      addressModeV: "clamp-to-edge",
+    });
+
+    // Blur passes share one buffer and select their slot with a dynamic offset
+    const blurLayout = device.createBindGroupLayout({
+      entries: [
+        {
+          binding: 0,
+          visibility: GPUShaderStage.FRAGMENT,
+          sampler: { type: "filtering" },
+        },
+        {
+          binding: 1,
+          visibility: GPUShaderStage.FRAGMENT,
+          texture: { sampleType: "float" },
+        },
+        {
+          binding: 2,
+          visibility: GPUShaderStage.FRAGMENT,
+          buffer: { type: "uniform", hasDynamicOffset: true },
+        },
+      ],
+    });
+
+    // Create render pipelines
+    const blurPipelineLayout = device.createPipelineLayout({
+      bindGroupLayouts: [blurLayout],
+    });
+    this.blurPipeline = this.createPipeline(
+      KAWASE_BLUR_SHADER,
+      FLOAT_FORMAT,
+      blurPipelineLayout,
+    );
+    this.gaussianPipeline = this.createPipeline(
+      GAUSSIAN_BLUR_SHADER,
+      FLOAT_FORMAT,
+      blurPipelineLayout,
+    );
+    this.dualDownPipeline = this.createPipeline(
+      DUAL_KAWASE_DOWN_SHADER,
+      FLOAT_FORMAT,
+      blurPipelineLayout,
+    );
+    this.dualUpPipeline = this.createPipeline(
+      DUAL_KAWASE_UP_SHADER,
+      FLOAT_FORMAT,
+      blurPipelineLayout,
+    );
+    this.reducePipeline = this.createPipeline(
+      KAWASE_BLUR_SHADER,
+      "rgba8unorm",
+      blurPipelineLayout,
+    );
+    this.blendPipeline = this.createPipeline(BLEND_SHADER, FLOAT_FORMAT);
+    this.tintPipeline = this.createPipeline(TINT_SHADER, FLOAT_FORMAT);
+    this.warpPipeline = this.createPipeline(DOMAIN_WARP_SHADER, FLOAT_FORMAT);
+    this.outputPipeline = this.createPipeline(OUTPUT_SHADER, format, "auto", {
+      screen: true,
+    });
+
+    // Create uniform buffers
+    this.blurUniforms = this.createUniformBuffer(
+      UNIFORM_SLOT_SIZE * (MAX_BLUR_PASSES + 1),
+    );
+    this.blendUniforms = this.createUniformBuffer(16);
+    this.tintUniforms = this.createUniformBuffer(48);
+    this.warpUniforms = this.createUniformBuffer(16);
+    this.outputUniforms = this.createUniformBuffer(64);
+
+    // Create source texture
+    this.sourceTexture = this.createSourceTexture(1, 1);
+
+    this.createBlurTargets();
+
+    // Create full-res warp texture (will be resized)
+    this.warpTexture = this.createTexture(1, 1);
+  }
+
+  uploadSource(source: TexImageSource): void {
+    const [sourceWidth, sourceHeight] = getSourceSize(source);
+    const [width, height] = clampSize(
+      sourceWidth,
+      sourceHeight,
+      this.device.limits.maxTextureDimension2D,
+    );
+    const image =
+      width < sourceWidth || height < sourceHeight
+        ? resizeSource(source, width, height)
+        : source;
+
+    this.ensureSourceSize(width, height);
+    this.device.queue.copyExternalImageToTexture(
+      { source: image },
+      { texture: this.sourceTexture },
+      [width, height],
+    );
+    this.reduceSource();
+  }
+
+  uploadSourceData(data: Uint8Array, width: number, height: number): void {
+    const [fitWidth, fitHeight] = clampSize(
+      width,
+      height,
+      this.device.limits.maxTextureDimension2D,
+    );
+    const pixels =
+      fitWidth < width || fitHeight < height
+        ? resizePixels(data, width, height, fitWidth, fitHeight)
+        : data;
+
+    this.ensureSourceSize(fitWidth, fitHeight);
+    this.device.queue.writeTexture(
+      { texture: this.sourceTexture },
+      pixels as Uint8Array<ArrayBuffer>,
+      { bytesPerRow: fitWidth * 4 },
+      [fitWidth, fitHeight],
+    );
+    this.reduceSource();
+  }
+
+  /**
+   * Blur the source texture into the album texture (with tint applied before blur)
+   */
+  blurSource(params: BlurParams, swap: boolean): void {
+    const { device } = this;
+    this.ensureBlurSize(params.resolution);
+
+    // Swap album textures - current becomes the "from", we'll render "to" into next
+    if (swap) {
+      [this.currentAlbumTexture, this.nextAlbumTexture] = [
+        this.nextAlbumTexture,
+        this.currentAlbumTexture,
+      ];
+    }
+
+    device.queue.writeBuffer(
+      this.tintUniforms,
+      0,
+      new Float32Array([
+        ...params.tintColor,
+        params.tintIntensity,
+        ...params.sourceRect,
+        ...params.sourceBounds,
+      ]),
+    );
+
+    const encoder = device.createCommandEncoder();
+
+    // Step 1: Apply tint to source texture → blurTexture1
+    const sources = [this.sourceTexture, ...this.sourceLevels];
+    const level = pickSourceLevel(
+      sources.map(({ width, height }): [number, number] => [width, height]),
+      params.sourceRect,
+      this.blurSize,
+    );
+    this.drawPass(
+      encoder,
+      this.tintPipeline,
+      this.createBindGroup(
+        this.tintPipeline,
+        [sources[level]!],
+        this.tintUniforms,
+      ),
+      this.blurTexture1,
+    );
+
+    // Step 2: Blur the tinted texture
+    let result: GPUTexture;
+    switch (params.algorithm) {
+      case "dual-kawase":
+        result = this.dualKawaseBlur(encoder, params.blurPasses);
+        break;
+      case "gaussian":
+        result = this.gaussianBlur(encoder, params.blurPasses);
+        break;
+      default:
+        result = this.kawaseBlur(encoder, params.blurPasses);
+    }
+
+    // Step 3: Copy final blur result to the album texture
+    encoder.copyTextureToTexture(
+      { texture: result },
+      { texture: this.nextAlbumTexture },
+      [this.blurSize, this.blurSize],
+    );
+
+    device.queue.submit([encoder.finish()]);
+  }
+
+  freezeTransition(blend: number, transition: KawarpTransition): void {
+    this.device.queue.writeBuffer(
+      this.blendUniforms,
+      0,
+      new Float32Array([blend, ...transitionMode(transition)]),
+    );
+
+    const encoder = this.device.createCommandEncoder();
+    this.drawPass(
+      encoder,
+      this.blendPipeline,
+      this.createBindGroup(
+        this.blendPipeline,
+        [this.currentAlbumTexture, this.nextAlbumTexture],
+        this.blendUniforms,
+      ),
+      this.blurTexture1,
+    );
+    encoder.copyTextureToTexture(
+      { texture: this.blurTexture1 },
+      { texture: this.currentAlbumTexture },
+      [this.blurSize, this.blurSize],
+    );
+    this.device.queue.submit([encoder.finish()]);
+  }
+
+  resize(width: number, height: number): void {
+    this.width = Math.max(1, width);
+    this.height = Math.max(1, height);
+
+    // Only warpTexture needs to be canvas size
+    this.warpTexture.destroy();
+    this.warpTexture = this.createTexture(this.width, this.height);
+  }
+
+  /**
+   * Blend album textures → domain warp → output
+   */
+  render(params: FrameParams): void {
+    const { device, width, height } = this;
+
+    device.queue.writeBuffer(
+      this.blendUniforms,
+      0,
+      new Float32Array([params.blend, ...transitionMode(params.transition)]),
+    );
+    device.queue.writeBuffer(
+      this.warpUniforms,
+      0,
+      new Float32Array([
+        params.time,
+        params.warpIntensity,
+        ...seedOffset(params.seed),
+      ]),
+    );
+    device.queue.writeBuffer(
+      this.outputUniforms,
+      0,
+      new Float32Array([
+        params.saturation,
+        params.dithering,
+        params.time,
+        params.scale,
+        width,
+        height,
+        ...params.vignetteCenter,
+        ...params.vignetteColor,
+        params.vignetteIntensity,
+        params.vignetteRadius,
+        params.vignetteSoftness,
+        params.vignetteShape === "circular" ? 1 : 0,
+        0,
+      ]),
+    );
+
+    const encoder = device.createCommandEncoder();
+
+    // Step 1: Blend album textures (or use current if not transitioning)
+    let blendedTexture = this.nextAlbumTexture;
+
+    if (params.blend < 1.0) {
+      this.drawPass(
+        encoder,
+        this.blendPipeline,
+        this.createBindGroup(
+          this.blendPipeline,
+          [this.currentAlbumTexture, this.nextAlbumTexture],
+          this.blendUniforms,
+        ),
+        this.blurTexture1,
+      );
+      blendedTexture = this.blurTexture1;
+    }
+
+    // Step 2: Warp upscales the blended result to full resolution
+    this.drawPass(
+      encoder,
+      this.warpPipeline,
+      this.createBindGroup(
+        this.warpPipeline,
+        [blendedTexture],
+        this.warpUniforms,
+      ),
+      this.warpTexture,
+    );
+
+    // Step 3: Output with vignette, saturation and dithering
+    this.drawPass(
+      encoder,
+      this.outputPipeline,
+      this.createBindGroup(
+        this.outputPipeline,
+        [this.warpTexture],
+        this.outputUniforms,
+      ),
+      this.context.getCurrentTexture(),
+    );
+
+    device.queue.submit([encoder.finish()]);
+  }
+
+  dispose(): void {
+    this.blurUniforms.destroy();
+    this.blendUniforms.destroy();
+    this.tintUniforms.destroy();
+    this.warpUniforms.destroy();
+    this.outputUniforms.destroy();
+
+    this.sourceTexture.destroy();
+    for (const texture of this.sourceLevels) texture.destroy();
+    this.destroyBlurTargets();
+    this.warpTexture.destroy();
+
+    this.context.unconfigure();
+    if (this.ownsDevice) this.device.destroy();
+  }
+
+  /**
+   * Halve the uploaded source repeatedly. Sampling each texel center of a
+   * half-size target lands between four source texels, so linear filtering
+   * averages them. The chain is kept while the size stays the same.
+   */
+  private reduceSource(): void {
+    const { device } = this;
+    const { width, height } = this.sourceTexture;
+
+    // Every level follows from the first, so comparing it is enough
+    const sizes = sourceLevelSizes(width, height);
+    const [first] = this.sourceLevels;
+    if (first?.width !== sizes[0]?.[0] || first?.height !== sizes[0]?.[1]) {
+      for (const texture of this.sourceLevels) texture.destroy();
+      this.sourceLevels = sizes.map(([w, h]) => this.createSourceTexture(w, h));
+    }
+    if (this.sourceLevels.length === 0) return;
+
+    // A zero tap offset turns the Kawase shader into a plain copy
+    device.queue.writeBuffer(
+      this.blurUniforms,
+      0,
+      new Float32Array([width, height, 0, 0]),
+    );
+    const encoder = device.createCommandEncoder();
+    let read = this.sourceTexture;
+    for (const level of this.sourceLevels) {
+      this.drawPass(
+        encoder,
+        this.reducePipeline,
+        this.createBlurBindGroup(read),
+        level,
+        0,
+      );
+      read = level;
+    }
+    device.queue.submit([encoder.finish()]);
+  }
+
+  private createBlurTargets(): void {
+    const size = this.blurSize;
+
+    // Create small textures for blur operations
+    this.blurTexture1 = this.createTexture(size, size);
+    this.blurTexture2 = this.createTexture(size, size);
+    this.blurBindGroup1 = this.createBlurBindGroup(this.blurTexture1);
+    this.blurBindGroup2 = this.createBlurBindGroup(this.blurTexture2);
+
+    // Create album textures for crossfade
+    this.currentAlbumTexture = this.createTexture(size, size);
+    this.nextAlbumTexture = this.createTexture(size, size);
+  }
+
+  private destroyBlurTargets(): void {
+    this.blurTexture1.destroy();
+    this.blurTexture2.destroy();
+    this.currentAlbumTexture.destroy();
+    this.nextAlbumTexture.destroy();
+    for (const texture of this.dualTextures) texture.destroy();
+    this.dualTextures = [];
+  }
+
+  /**
+   * Reallocate the blur and album textures when the blur resolution changes.
+   * Album contents are lost, so the caller re-blurs right after.
+   */
+  private ensureBlurSize(size: number): void {
+    if (size === this.blurSize) return;
+    this.destroyBlurTargets();
+    this.blurSize = size;
+    this.createBlurTargets();
+  }
+
+  /**
+   * Iterative Kawase: the tap offset grows by one texel each pass
+   */
+  private kawaseBlur(
+    encoder: GPUCommandEncoder,
+    blurPasses: number,
+  ): GPUTexture {
+    const size = this.blurSize;
+    const passes = Math.min(blurPasses, MAX_BLUR_PASSES);
+    for (let i = 0; i < passes; i++) {
+      this.device.queue.writeBuffer(
+        this.blurUniforms,
+        i * UNIFORM_SLOT_SIZE,
+        new Float32Array([size, size, i + 0.5, 0]),
+      );
+    }
+
+    let read = { texture: this.blurTexture1, bindGroup: this.blurBindGroup1 };
+    let write = { texture: this.blurTexture2, bindGroup: this.blurBindGroup2 };
+
+    for (let i = 0; i < passes; i++) {
+      this.drawPass(
+        encoder,
+        this.blurPipeline,
+        read.bindGroup,
+        write.texture,
+        i * UNIFORM_SLOT_SIZE,
+      );
+      [read, write] = [write, read];
+    }
+    return read.texture;
+  }
+
+  /**
+   * Separable Gaussian: horizontal then vertical, repeated for wide kernels
+   */
+  private gaussianBlur(
+    encoder: GPUCommandEncoder,
+    blurPasses: number,
+  ): GPUTexture {
+    const size = this.blurSize;
+    const { sigma, iterations } = gaussianPasses(blurPasses, size);
+    const passes = iterations * 2;
+    for (let i = 0; i < passes; i++) {
+      const horizontal = i % 2 === 0;
+      this.device.queue.writeBuffer(
+        this.blurUniforms,
+        i * UNIFORM_SLOT_SIZE,
+        new Float32Array([
+          horizontal ? 1 / size : 0,
+          horizontal ? 0 : 1 / size,
+          sigma,
+          0,
+        ]),
+      );
+    }
+
+    let read = { texture: this.blurTexture1, bindGroup: this.blurBindGroup1 };
+    let write = { texture: this.blurTexture2, bindGroup: this.blurBindGroup2 };
+
+    for (let i = 0; i < passes; i++) {
+      this.drawPass(
+        encoder,
+        this.gaussianPipeline,
+        read.bindGroup,
+        write.texture,
+        i * UNIFORM_SLOT_SIZE,
+      );
+      [read, write] = [write, read];
+    }
+    return read.texture;
+  }
+
+  /**
+   * Dual Kawase: downsample through a chain of half-size textures, then
+   * upsample back to blurSize
+   */
+  private dualKawaseBlur(
+    encoder: GPUCommandEncoder,
+    blurPasses: number,
+  ): GPUTexture {
+    const levels = dualKawaseLevels(blurPasses, this.blurSize);
+    while (this.dualTextures.length < levels) {
+      const size = Math.max(1, this.blurSize >> (this.dualTextures.length + 1));
+      this.dualTextures.push(this.createTexture(size, size));
+    }
+
+    let slot = 0;
+    const draw = (
+      pipeline: GPURenderPipeline,
+      bindGroup: GPUBindGroup,
+      target: GPUTexture,
+    ) => {
+      this.device.queue.writeBuffer(
+        this.blurUniforms,
+        slot * UNIFORM_SLOT_SIZE,
+        new Float32Array([0.5 / target.width, 0.5 / target.height, 0, 0]),
+      );
+      this.drawPass(
+        encoder,
+        pipeline,
+        bindGroup,
+        target,
+        slot * UNIFORM_SLOT_SIZE,
+      );
+      slot++;
+    };
+
+    // Downsample: blurTexture1 → dualTextures[0] → ... → dualTextures[levels - 1]
+    let read = this.blurTexture1;
+    let readBindGroup = this.blurBindGroup1;
+    for (let level = 0; level < levels; level++) {
+      const target = this.dualTextures[level]!;
+      draw(this.dualDownPipeline, readBindGroup, target);
+      read = target;
+      readBindGroup = this.createBlurBindGroup(target);
+    }
+
+    // Upsample back up the chain, the last step lands in blurTexture2
+    for (let level = levels - 2; level >= -1; level--) {
+      const target = level >= 0 ? this.dualTextures[level]! : this.blurTexture2;
+      draw(this.dualUpPipeline, readBindGroup, target);
+      read = target;
+      readBindGroup = this.createBlurBindGroup(target);
+    }
+    return read;
+  }
+
+  private drawPass(
+    encoder: GPUCommandEncoder,
+    pipeline: GPURenderPipeline,
+    bindGroup: GPUBindGroup,
+    target: GPUTexture,
+    dynamicOffset?: number,
+  ): void {
+    const pass = encoder.beginRenderPass({
+      colorAttachments: [
+        {
+          view: target.createView(),
+          loadOp: "clear",
+          storeOp: "store",
+        },
+      ],
+    });
+    pass.setPipeline(pipeline);
+    pass.setBindGroup(
+      0,
+      bindGroup,
+      dynamicOffset === undefined ? [] : [dynamicOffset],
+    );
+    pass.draw(6);
+    pass.end();
+  }
+
+  private createPipeline(
+    fragmentSource: string,
+    format: GPUTextureFormat,
+    layout: GPUPipelineLayout | "auto" = "auto",
+    { screen = false } = {},
+  ): GPURenderPipeline {
+    const module = this.device.createShaderModule({
+      code: QUAD_SHADER + fragmentSource,
+    });
+    return this.device.createRenderPipeline({
+      layout,
+      vertex: { module, entryPoint: screen ? "vs_screen" : "vs_offscreen" },
+      fragment: { module, entryPoint: "fs_main", targets: [{ format }] },
+      primitive: { topology: "triangle-list" },
+    });
+  }
+
+  private createBindGroup(
+    pipeline: GPURenderPipeline,
+    textures: GPUTexture[],
+    uniforms: GPUBuffer,
+  ): GPUBindGroup {
+    return this.device.createBindGroup({
+      layout: pipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: this.sampler },
+        ...textures.map((texture, i) => ({
+          binding: i + 1,
+          resource: texture.createView(),
+        })),
+        { binding: textures.length + 1, resource: { buffer: uniforms } },
+      ],
+    });
+  }
+
+  private createBlurBindGroup(texture: GPUTexture): GPUBindGroup {
+    return this.device.createBindGroup({
+      layout: this.blurPipeline.getBindGroupLayout(0),
+      entries: [
+        { binding: 0, resource: this.sampler },
+        { binding: 1, resource: texture.createView() },
+        { binding: 2, resource: { buffer: this.blurUniforms, size: 16 } },
+      ],
+    });
+  }
+
+  private createUniformBuffer(size: number): GPUBuffer {
+    return this.device.createBuffer({
+      size,
+      usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+    });
+  }
+
+  private createTexture(width: number, height: number): GPUTexture {
+    return this.device.createTexture({
+      size: [width, height],
+      format: FLOAT_FORMAT,
+      usage:
+        GPUTextureUsage.RENDER_ATTACHMENT |
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_SRC |
+        GPUTextureUsage.COPY_DST,
+    });
+  }
+
+  private createSourceTexture(width: number, height: number): GPUTexture {
+    return this.device.createTexture({
+      size: [width, height],
+      format: "rgba8unorm",
+      usage:
+        GPUTextureUsage.TEXTURE_BINDING |
+        GPUTextureUsage.COPY_DST |
+        GPUTextureUsage.RENDER_ATTACHMENT,
+    });
+  }
+
+  private ensureSourceSize(width: number, height: number): void {
+    if (
+      this.sourceTexture.width === width &&
+      this.sourceTexture.height === height
+    ) {
+      return;
+    }
+    this.sourceTexture.destroy();
+    this.sourceTexture = this.createSourceTexture(width, height);
+  }
+}
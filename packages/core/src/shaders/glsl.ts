@@ -0,0 +1,324 @@
+/**
+ * GLSL ES 1.00 shader sources for the WebGL renderer
+ */
+
+export const VERTEX_SHADER = `
+  attribute vec2 a_position;
+  attribute vec2 a_texCoord;
+  varying vec2 v_texCoord;
+  void main() {
+    gl_Position = vec4(a_position, 0.0, 1.0);
+    v_texCoord = a_texCoord;
+  }
+`;
+
+export const KAWASE_BLUR_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform vec2 u_resolution;
+  uniform float u_offset;
+  varying vec2 v_texCoord;
+
+  void main() {
+    highp vec2 texelSize = 1.0 / u_resolution;
+    highp vec4 color = vec4(0.0);
+
+    color += texture2D(u_texture, v_texCoord + vec2(-u_offset, -u_offset) * texelSize);
+    color += texture2D(u_texture, v_texCoord + vec2(u_offset, -u_offset) * texelSize);
+    color += texture2D(u_texture, v_texCoord + vec2(-u_offset, u_offset) * texelSize);
+    color += texture2D(u_texture, v_texCoord + vec2(u_offset, u_offset) * texelSize);
+
+    gl_FragColor = color * 0.25;
+  }
+`;
+
+// Separable Gaussian blur along u_direction (one texel step)
+export const GAUSSIAN_BLUR_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform vec2 u_direction;
+  uniform float u_sigma;
+  varying vec2 v_texCoord;
+
+  void main() {
+    // Wide kernels step over several texels, linear filtering fills the gaps
+    float stride = max(1.0, u_sigma / 8.0);
+    vec4 color = texture2D(u_texture, v_texCoord);
+    float total = 1.0;
+
+    for (int i = 1; i <= 24; i++) {
+      float x = float(i) * stride;
+      if (x > u_sigma * 3.0) break;
+      float weight = exp(-0.5 * x * x / (u_sigma * u_sigma));
+      color += texture2D(u_texture, v_texCoord + u_direction * x) * weight;
+      color += texture2D(u_texture, v_texCoord - u_direction * x) * weight;
+      total += 2.0 * weight;
+    }
+
+    gl_FragColor = color / total;
+  }
+`;
+
+// Dual Kawase downsample, u_halfPixel is half a texel of the target
+export const DUAL_KAWASE_DOWN_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform vec2 u_halfPixel;
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec4 color = texture2D(u_texture, v_texCoord) * 4.0;
+    color += texture2D(u_texture, v_texCoord - u_halfPixel);
+    color += texture2D(u_texture, v_texCoord + u_halfPixel);
+    color += texture2D(u_texture, v_texCoord + vec2(u_halfPixel.x, -u_halfPixel.y));
+    color += texture2D(u_texture, v_texCoord - vec2(u_halfPixel.x, -u_halfPixel.y));
+    gl_FragColor = color / 8.0;
+  }
+`;
+
+// Dual Kawase upsample, u_halfPixel is half a texel of the target
+export const DUAL_KAWASE_UP_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform vec2 u_halfPixel;
+  varying vec2 v_texCoord;
+
+  void main() {
+    vec2 h = u_halfPixel;
+    vec4 color = texture2D(u_texture, v_texCoord + vec2(-h.x * 2.0, 0.0));
+    color += texture2D(u_texture, v_texCoord + vec2(-h.x, h.y)) * 2.0;
+    color += texture2D(u_texture, v_texCoord + vec2(0.0, h.y * 2.0));
+    color += texture2D(u_texture, v_texCoord + vec2(h.x, h.y)) * 2.0;
+    color += texture2D(u_texture, v_texCoord + vec2(h.x * 2.0, 0.0));
+    color += texture2D(u_texture, v_texCoord + vec2(h.x, -h.y)) * 2.0;
+    color += texture2D(u_texture, v_texCoord + vec2(0.0, -h.y * 2.0));
+    color += texture2D(u_texture, v_texCoord + vec2(-h.x, -h.y)) * 2.0;
+    gl_FragColor = color / 12.0;
+  }
+`;
+
+// Blend shader for crossfading between two textures
+export const BLEND_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture1;
+  uniform sampler2D u_texture2;
+  uniform float u_blend;
+  // 0 = crossfade, 1 = wipe along u_direction, 2 = radial, 3 = dissolve
+  uniform float u_mode;
+  uniform vec2 u_direction;
+  varying vec2 v_texCoord;
+
+  const float SOFTNESS = 0.2;
+
+  highp float hash(highp vec3 p) {
+    p = fract(p * 0.1031);
+    p += dot(p, p.zyx + 31.32);
+    return fract((p.x + p.y) * p.z);
+  }
+
+  float valueNoise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(hash(vec3(i, 0.0)), hash(vec3(i + vec2(1.0, 0.0), 0.0)), f.x),
+      mix(hash(vec3(i + vec2(0.0, 1.0), 0.0)), hash(vec3(i + 1.0, 0.0)), f.x),
+      f.y
+    );
+  }
+
+  void main() {
+    vec4 color1 = texture2D(u_texture1, v_texCoord);
+    vec4 color2 = texture2D(u_texture2, v_texCoord);
+
+    // When the front reaches each texel, 0-1
+    float position = 0.0;
+    if (u_mode > 2.5) {
+      position = valueNoise(v_texCoord * 6.0);
+    } else if (u_mode > 1.5) {
+      position = length(v_texCoord - 0.5) * 1.4142;
+    } else if (u_mode > 0.5) {
+      position = dot(v_texCoord - 0.5, u_direction) + 0.5;
+    }
+
+    float amount = u_mode < 0.5
+      ? u_blend
+      : smoothstep(position, position + SOFTNESS, u_blend * (1.0 + SOFTNESS));
+    gl_FragColor = mix(color1, color2, amount);
+  }
+`;
+
+// Tint shader - applies color to dark areas before blur
+export const TINT_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform vec3 u_tintColor;
+  uniform float u_tintIntensity;
+  uniform vec4 u_sourceRect;
+  uniform vec4 u_sourceBounds;
+  varying vec2 v_texCoord;
+
+  void main() {
+    // Map onto the fitted source region, clamping to the crop
+    vec2 uv = u_sourceRect.xy + v_texCoord * u_sourceRect.zw;
+    uv = clamp(uv, u_sourceBounds.xy, u_sourceBounds.zw);
+
+    vec4 color = texture2D(u_texture, uv);
+    float luma = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+
+    // darkMask: 1.0 for black, 0.0 for luma >= 0.5
+    float darkMask = 1.0 - smoothstep(0.0, 0.5, luma);
+
+    // Blend dark areas toward tint color
+    color.rgb = mix(color.rgb, u_tintColor, darkMask * u_tintIntensity);
+
+    gl_FragColor = color;
+  }
+`;
+
+// Default warp: two octaves of simplex noise, strongest at the centre
+export const DEFAULT_WARP_FUNCTION = `
+  vec2 warp(vec2 uv, float time) {
+    float t = time * 0.05;
+
+    vec2 center = uv - 0.5;
+    float centerWeight = 1.0 - smoothstep(0.0, 0.7, length(center));
+
+    // Large-scale movement (slow, big blobs)
+    float n1 = snoise(uv * 0.35 + vec2(t, t * 0.7));
+    float n2 = snoise(uv * 0.35 + vec2(-t * 0.8, t * 0.5) + vec2(50.0, 50.0));
+
+    // Medium-scale detail (adds organic movement)
+    float n3 = snoise(uv * 0.9 + vec2(t * 1.2, -t) + vec2(100.0, 0.0));
+    float n4 = snoise(uv * 0.9 + vec2(-t, t * 1.1) + vec2(0.0, 100.0));
+
+    // Combine two octaves
+    return vec2(
+      n1 * 0.65 + n3 * 0.35,
+      n2 * 0.65 + n4 * 0.35
+    ) * centerWeight;
+  }
+`;
+
+/**
+ * Domain warp shader with a `vec2 warp(vec2 uv, float time)` function
+ * spliced in. The function returns a UV offset, scaled by `u_intensity`.
+ * `snoise`, `mod289` and `permute` are in scope.
+ */
+export function createWarpShader(warpFunction = DEFAULT_WARP_FUNCTION): string {
+  return `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform float u_time;
+  uniform float u_intensity;
+  uniform vec2 u_seed;
+  varying vec2 v_texCoord;
+
+  vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec2 mod289(vec2 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  vec3 permute(vec3 x) { return mod289(((x*34.0)+1.0)*x); }
+
+  float snoise(vec2 v) {
+    v += u_seed;
+    const vec4 C = vec4(0.211324865405187, 0.366025403784439,
+                        -0.577350269189626, 0.024390243902439);
+    vec2 i  = floor(v + dot(v, C.yy));
+    vec2 x0 = v - i + dot(i, C.xx);
+    vec2 i1 = (x0.x > x0.y) ? vec2(1.0, 0.0) : vec2(0.0, 1.0);
+    vec4 x12 = x0.xyxy + C.xxzz;
+    x12.xy -= i1;
+    i = mod289(i);
+    vec3 p = permute(permute(i.y + vec3(0.0, i1.y, 1.0)) + i.x + vec3(0.0, i1.x, 1.0));
+    vec3 m = max(0.5 - vec3(dot(x0,x0), dot(x12.xy,x12.xy), dot(x12.zw,x12.zw)), 0.0);
+    m = m*m; m = m*m;
+    vec3 x = 2.0 * fract(p * C.www) - 1.0;
+    vec3 h = abs(x) - 0.5;
+    vec3 ox = floor(x + 0.5);
+    vec3 a0 = x - ox;
+    m *= 1.79284291400159 - 0.85373472095314 * (a0*a0 + h*h);
+    vec3 g;
+    g.x = a0.x * x0.x + h.x * x0.y;
+    g.yz = a0.yz * x12.xz + h.yz * x12.yw;
+    return 130.0 * dot(m, g);
+  }
+
+${warpFunction}
+
+  void main() {
+    vec2 uv = v_texCoord;
+    vec2 warpedUV = uv + warp(uv, u_time) * u_intensity;
+    warpedUV = clamp(warpedUV, 0.0, 1.0);
+
+    gl_FragColor = texture2D(u_texture, warpedUV);
+  }
+`;
+}
+
+export const OUTPUT_SHADER = `
+  precision highp float;
+  uniform sampler2D u_texture;
+  uniform float u_saturation;
+  uniform float u_dithering;
+  uniform float u_time;
+  uniform float u_scale;
+  uniform vec2 u_resolution;
+  uniform float u_vignetteIntensity;
+  uniform float u_vignetteRadius;
+  uniform float u_vignetteSoftness;
+  uniform vec3 u_vignetteColor;
+  uniform vec2 u_vignetteCenter;
+  uniform float u_vignetteCircular;
+  varying vec2 v_texCoord;
+
+  highp float hash(highp vec3 p) {
+    p = fract(p * 0.1031);
+    p += dot(p, p.zyx + 31.32);
+    return fract((p.x + p.y) * p.z);
+  }
+
+  void main() {
+    vec2 uv = (v_texCoord - 0.5) / u_scale + 0.5;
+    uv = clamp(uv, 0.0, 1.0);
+
+    vec4 color = texture2D(u_texture, uv);
+
+    // Vignette: quadratic falloff past the radius, toward the vignette color
+    vec2 center = vec2(v_texCoord.x, 1.0 - v_texCoord.y) - u_vignetteCenter;
+    if (u_vignetteCircular > 0.5) {
+      center *= u_resolution / min(u_resolution.x, u_resolution.y);
+    }
+    float edge = clamp((length(center) - u_vignetteRadius) / u_vignetteSoftness, 0.0, 1.0);
+    color.rgb = mix(color.rgb, u_vignetteColor, edge * edge * u_vignetteIntensity);
+
+    float gray = dot(color.rgb, vec3(0.299, 0.587, 0.114));
+    color.rgb = mix(vec3(gray), color.rgb, u_saturation);
+
+    highp vec2 pixelPos = floor(v_texCoord * u_resolution);
+    highp float noise = hash(vec3(pixelPos, floor(u_time * 60.0)));
+    color.rgb += (noise - 0.5) * u_dithering;
+
+    gl_FragColor = color;
+  }
+`;
+
+/**
+ * Convert a GLSL ES 1.00 shader to GLSL ES 3.00 for WebGL2 contexts
+ */
+export function toGLSL300(source: string, type: "vertex" | "fragment"): string {
+  let converted = source.replace(/\btexture2D\(/g, "texture(");
+  if (type === "vertex") {
+    converted = converted
+      .replace(/\battribute\b/g, "in")
+      .replace(/\bvarying\b/g, "out");
+  } else {
+    converted = converted
+      .replace(/\bvarying\b/g, "in")
+      .replace(/\bgl_FragColor\b/g, "fragColor");
+    // The output needs a float precision, which custom passes may not set
+    const precision = /precision\s+\w+\s+float;/;
+    converted = precision.test(converted)
+      ? converted.replace(precision, "$&\n  out vec4 fragColor;")
+      : `precision highp float;\nout vec4 fragColor;\n${converted}`;
+  }
+  return `#version 300 es\n${converted}`;
+}
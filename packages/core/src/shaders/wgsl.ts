@@ -0,0 +1,349 @@
+/**
+ * WGSL shader sources for the WebGPU renderer.
+ * Each pass mirrors the GLSL version in ./glsl.ts.
+ */
+
+// Full-screen quad generated from the vertex index. Offscreen passes flip V so
+// texture rows line up with WebGL's bottom-up framebuffers; the screen pass
+// keeps WebGL's orientation so both backends produce the same image.
+export const QUAD_SHADER = /* wgsl */ `
+  struct VertexOutput {
+    @builtin(position) position: vec4f,
+    @location(0) texCoord: vec2f,
+  };
+
+  fn quadVertex(index: u32) -> vec2f {
+    var positions = array<vec2f, 6>(
+      vec2f(-1.0, -1.0), vec2f(1.0, -1.0), vec2f(-1.0, 1.0),
+      vec2f(-1.0, 1.0), vec2f(1.0, -1.0), vec2f(1.0, 1.0),
+    );
+    return positions[index];
+  }
+
+  @vertex
+  fn vs_offscreen(@builtin(vertex_index) index: u32) -> VertexOutput {
+    let position = quadVertex(index);
+    var out: VertexOutput;
+    out.position = vec4f(position, 0.0, 1.0);
+    out.texCoord = vec2f(position.x * 0.5 + 0.5, 0.5 - position.y * 0.5);
+    return out;
+  }
+
+  @vertex
+  fn vs_screen(@builtin(vertex_index) index: u32) -> VertexOutput {
+    let position = quadVertex(index);
+    var out: VertexOutput;
+    out.position = vec4f(position, 0.0, 1.0);
+    out.texCoord = position * 0.5 + 0.5;
+    return out;
+  }
+`;
+
+export const KAWASE_BLUR_SHADER = /* wgsl */ `
+  struct BlurUniforms {
+    resolution: vec2f,
+    offset: f32,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: BlurUniforms;
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let texelSize = 1.0 / u.resolution;
+    var color = vec4f(0.0);
+
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(-u.offset, -u.offset) * texelSize);
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(u.offset, -u.offset) * texelSize);
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(-u.offset, u.offset) * texelSize);
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(u.offset, u.offset) * texelSize);
+
+    return color * 0.25;
+  }
+`;
+
+// Separable Gaussian blur along u.direction (one texel step)
+export const GAUSSIAN_BLUR_SHADER = /* wgsl */ `
+  struct GaussianUniforms {
+    direction: vec2f,
+    sigma: f32,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: GaussianUniforms;
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    // Wide kernels step over several texels, linear filtering fills the gaps
+    let stride = max(1.0, u.sigma / 8.0);
+    var color = textureSampleLevel(u_texture, u_sampler, in.texCoord, 0.0);
+    var total = 1.0;
+
+    for (var i = 1; i <= 24; i++) {
+      let x = f32(i) * stride;
+      if (x > u.sigma * 3.0) {
+        break;
+      }
+      let weight = exp(-0.5 * x * x / (u.sigma * u.sigma));
+      color += textureSampleLevel(u_texture, u_sampler, in.texCoord + u.direction * x, 0.0) * weight;
+      color += textureSampleLevel(u_texture, u_sampler, in.texCoord - u.direction * x, 0.0) * weight;
+      total += 2.0 * weight;
+    }
+
+    return color / total;
+  }
+`;
+
+// Dual Kawase downsample, u.halfPixel is half a texel of the target
+export const DUAL_KAWASE_DOWN_SHADER = /* wgsl */ `
+  struct DualKawaseUniforms {
+    halfPixel: vec2f,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: DualKawaseUniforms;
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let h = u.halfPixel;
+    var color = textureSample(u_texture, u_sampler, in.texCoord) * 4.0;
+    color += textureSample(u_texture, u_sampler, in.texCoord - h);
+    color += textureSample(u_texture, u_sampler, in.texCoord + h);
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(h.x, -h.y));
+    color += textureSample(u_texture, u_sampler, in.texCoord - vec2f(h.x, -h.y));
+    return color / 8.0;
+  }
+`;
+
+// Dual Kawase upsample, u.halfPixel is half a texel of the target
+export const DUAL_KAWASE_UP_SHADER = /* wgsl */ `
+  struct DualKawaseUniforms {
+    halfPixel: vec2f,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: DualKawaseUniforms;
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let h = u.halfPixel;
+    var color = textureSample(u_texture, u_sampler, in.texCoord + vec2f(-h.x * 2.0, 0.0));
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(-h.x, h.y)) * 2.0;
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(0.0, h.y * 2.0));
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(h.x, h.y)) * 2.0;
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(h.x * 2.0, 0.0));
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(h.x, -h.y)) * 2.0;
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(0.0, -h.y * 2.0));
+    color += textureSample(u_texture, u_sampler, in.texCoord + vec2f(-h.x, -h.y)) * 2.0;
+    return color / 12.0;
+  }
+`;
+
+// Blend shader for crossfading between two textures
+export const BLEND_SHADER = /* wgsl */ `
+  struct BlendUniforms {
+    blend: f32,
+    // 0 = crossfade, 1 = wipe along direction, 2 = radial, 3 = dissolve
+    mode: f32,
+    direction: vec2f,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture1: texture_2d<f32>;
+  @group(0) @binding(2) var u_texture2: texture_2d<f32>;
+  @group(0) @binding(3) var<uniform> u: BlendUniforms;
+
+  const SOFTNESS = 0.2;
+
+  fn hash(position: vec3f) -> f32 {
+    var p = fract(position * 0.1031);
+    p += dot(p, p.zyx + 31.32);
+    return fract((p.x + p.y) * p.z);
+  }
+
+  fn valueNoise(p: vec2f) -> f32 {
+    let i = floor(p);
+    var f = fract(p);
+    f = f * f * (3.0 - 2.0 * f);
+    return mix(
+      mix(hash(vec3f(i, 0.0)), hash(vec3f(i + vec2f(1.0, 0.0), 0.0)), f.x),
+      mix(hash(vec3f(i + vec2f(0.0, 1.0), 0.0)), hash(vec3f(i + 1.0, 0.0)), f.x),
+      f.y,
+    );
+  }
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let color1 = textureSample(u_texture1, u_sampler, in.texCoord);
+    let color2 = textureSample(u_texture2, u_sampler, in.texCoord);
+
+    // When the front reaches each texel, 0-1
+    var position = 0.0;
+    if (u.mode > 2.5) {
+      position = valueNoise(in.texCoord * 6.0);
+    } else if (u.mode > 1.5) {
+      position = length(in.texCoord - 0.5) * 1.4142;
+    } else if (u.mode > 0.5) {
+      position = dot(in.texCoord - 0.5, u.direction) + 0.5;
+    }
+
+    var amount = u.blend;
+    if (u.mode > 0.5) {
+      amount = smoothstep(position, position + SOFTNESS, u.blend * (1.0 + SOFTNESS));
+    }
+    return mix(color1, color2, amount);
+  }
+`;
+
+// Tint shader - applies color to dark areas before blur
+export const TINT_SHADER = /* wgsl */ `
+  struct TintUniforms {
+    tintColor: vec3f,
+    tintIntensity: f32,
+    sourceRect: vec4f,
+    sourceBounds: vec4f,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: TintUniforms;
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    // Map onto the fitted source region, clamping to the crop
+    let uv = clamp(
+      u.sourceRect.xy + in.texCoord * u.sourceRect.zw,
+      u.sourceBounds.xy,
+      u.sourceBounds.zw,
+    );
+
+    let color = textureSample(u_texture, u_sampler, uv);
+    let luma = dot(color.rgb, vec3f(0.299, 0.587, 0.114));
+
+    // darkMask: 1.0 for black, 0.0 for luma >= 0.5
+    let darkMask = 1.0 - smoothstep(0.0, 0.5, luma);
+
+    // Blend dark areas toward tint color
+    return vec4f(mix(color.rgb, u.tintColor, darkMask * u.tintIntensity), color.a);
+  }
+`;
+
+export const DOMAIN_WARP_SHADER = /* wgsl */ `
+  struct WarpUniforms {
+    time: f32,
+    intensity: f32,
+    seed: vec2f,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: WarpUniforms;
+
+  fn mod289_3(x: vec3f) -> vec3f { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  fn mod289_2(x: vec2f) -> vec2f { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+  fn permute(x: vec3f) -> vec3f { return mod289_3(((x * 34.0) + 1.0) * x); }
+
+  fn snoise(seeded: vec2f) -> f32 {
+    let v = seeded + u.seed;
+    let C = vec4f(0.211324865405187, 0.366025403784439,
+                  -0.577350269189626, 0.024390243902439);
+    var i = floor(v + dot(v, C.yy));
+    let x0 = v - i + dot(i, C.xx);
+    let i1 = select(vec2f(0.0, 1.0), vec2f(1.0, 0.0), x0.x > x0.y);
+    var x12 = x0.xyxy + C.xxzz;
+    x12 = vec4f(x12.xy - i1, x12.zw);
+    i = mod289_2(i);
+    let p = permute(permute(i.y + vec3f(0.0, i1.y, 1.0)) + i.x + vec3f(0.0, i1.x, 1.0));
+    var m = max(0.5 - vec3f(dot(x0, x0), dot(x12.xy, x12.xy), dot(x12.zw, x12.zw)), vec3f(0.0));
+    m = m * m;
+    m = m * m;
+    let x = 2.0 * fract(p * C.www) - 1.0;
+    let h = abs(x) - 0.5;
+    let ox = floor(x + 0.5);
+    let a0 = x - ox;
+    m *= 1.79284291400159 - 0.85373472095314 * (a0 * a0 + h * h);
+    let g = vec3f(a0.x * x0.x + h.x * x0.y, a0.yz * x12.xz + h.yz * x12.yw);
+    return 130.0 * dot(m, g);
+  }
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let uv = in.texCoord;
+    let t = u.time * 0.05;
+
+    let center = uv - 0.5;
+    let centerWeight = 1.0 - smoothstep(0.0, 0.7, length(center));
+
+    // Large-scale movement (slow, big blobs)
+    let n1 = snoise(uv * 0.35 + vec2f(t, t * 0.7));
+    let n2 = snoise(uv * 0.35 + vec2f(-t * 0.8, t * 0.5) + vec2f(50.0, 50.0));
+
+    // Medium-scale detail (adds organic movement)
+    let n3 = snoise(uv * 0.9 + vec2f(t * 1.2, -t) + vec2f(100.0, 0.0));
+    let n4 = snoise(uv * 0.9 + vec2f(-t, t * 1.1) + vec2f(0.0, 100.0));
+
+    // Combine two octaves
+    let warp = vec2f(
+      n1 * 0.65 + n3 * 0.35,
+      n2 * 0.65 + n4 * 0.35
+    ) * centerWeight;
+
+    let warpedUV = clamp(uv + warp * u.intensity, vec2f(0.0), vec2f(1.0));
+
+    return textureSample(u_texture, u_sampler, warpedUV);
+  }
+`;
+
+export const OUTPUT_SHADER = /* wgsl */ `
+  struct OutputUniforms {
+    saturation: f32,
+    dithering: f32,
+    time: f32,
+    scale: f32,
+    resolution: vec2f,
+    vignetteCenter: vec2f,
+    vignetteColor: vec3f,
+    vignetteIntensity: f32,
+    vignetteRadius: f32,
+    vignetteSoftness: f32,
+    vignetteCircular: f32,
+  };
+
+  @group(0) @binding(0) var u_sampler: sampler;
+  @group(0) @binding(1) var u_texture: texture_2d<f32>;
+  @group(0) @binding(2) var<uniform> u: OutputUniforms;
+
+  fn hash(position: vec3f) -> f32 {
+    var p = fract(position * 0.1031);
+    p += dot(p, p.zyx + 31.32);
+    return fract((p.x + p.y) * p.z);
+  }
+
+  @fragment
+  fn fs_main(in: VertexOutput) -> @location(0) vec4f {
+    let uv = clamp((in.texCoord - 0.5) / u.scale + 0.5, vec2f(0.0), vec2f(1.0));
+
+    var color = textureSample(u_texture, u_sampler, uv);
+
+    // Vignette: quadratic falloff past the radius, toward the vignette color
+    var center = vec2f(in.texCoord.x, 1.0 - in.texCoord.y) - u.vignetteCenter;
+    if (u.vignetteCircular > 0.5) {
+      center *= u.resolution / min(u.resolution.x, u.resolution.y);
+    }
+    let edge = clamp((length(center) - u.vignetteRadius) / u.vignetteSoftness, 0.0, 1.0);
+    var rgb = mix(color.rgb, u.vignetteColor, edge * edge * u.vignetteIntensity);
+
+    let gray = dot(rgb, vec3f(0.299, 0.587, 0.114));
+    rgb = mix(vec3f(gray), rgb, u.saturation);
+
+    let pixelPos = floor(in.texCoord * u.resolution);
+    let noise = hash(vec3f(pixelPos, floor(u.time * 60.0)));
+    rgb += (noise - 0.5) * u.dithering;
+
+    return vec4f(rgb, color.a);
+  }
+`;
@@ -0,0 +1,302 @@
+/** Canvas Kawarp can render into, on the main thread or in a worker */
+export type KawarpCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+/**
+ * Size of a canvas that doesn't exist, for the software renderer without a
+ * DOM (e.g. in Node). Frames are only kept in memory.
+ */
+export interface KawarpHeadlessCanvas {
+  width: number;
+  height: number;
+}
+
+export interface KawarpOptions {
+  warpIntensity?: number;
+  blurPasses?: number;
+  animationSpeed?: number;
+  transitionDuration?: number;
+  saturation?: number;
+  tintColor?: [number, number, number];
+  tintIntensity?: number;
+  dithering?: number;
+  scale?: number;
+  blurAlgorithm?: KawarpBlurAlgorithm;
+  blurResolution?: number;
+  fit?: KawarpFit;
+  focalPoint?: [number, number];
+  crop?: KawarpCrop | null;
+  vignetteIntensity?: number;
+  vignetteRadius?: number;
+  vignetteSoftness?: number;
+  vignetteColor?: [number, number, number];
+  vignetteShape?: KawarpVignetteShape;
+  vignetteCenter?: [number, number];
+  transition?: KawarpTransition;
+  transitionEasing?: KawarpEasing;
+  seed?: number;
+  motion?: KawarpMotion;
+}
+
+/** How the previous image gives way to a newly loaded one */
+export type KawarpTransition =
+  | "crossfade"
+  | "wipe-left"
+  | "wipe-right"
+  | "wipe-up"
+  | "wipe-down"
+  | "radial"
+  | "dissolve"
+  | "warp-through";
+
+/**
+ * Progress curve of a transition: a CSS named timing function or the
+ * control points of a `cubic-bezier(x1, y1, x2, y2)`
+ */
+export type KawarpEasing =
+  | "linear"
+  | "ease"
+  | "ease-in"
+  | "ease-out"
+  | "ease-in-out"
+  | readonly [x1: number, y1: number, x2: number, y2: number];
+
+/** Vignette measured in canvas UVs (follows the aspect ratio) or as a true circle */
+export type KawarpVignetteShape = "elliptical" | "circular";
+
+/**
+ * How much the background moves. "auto" follows `prefers-reduced-motion`,
+ * "reduced" drops the warp and slows down, "none" draws a still frame.
+ */
+export type KawarpMotion = "auto" | "full" | "reduced" | "none";
+
+/** How the source is fitted to the canvas aspect ratio */
+export type KawarpFit = "cover" | "contain" | "stretch";
+
+/** Region of the source image to use, in source pixels */
+export interface KawarpCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How `setOptions` animates to the new values
+ */
+export interface KawarpTweenOptions {
+  /** Length of the tween in ms, 0 applies the options at once */
+  duration?: number;
+  /** Progress curve of the tween */
+  easing?: KawarpEasing;
+}
+
+/**
+ * Options for a single image, passed to the load methods. Unset fields fall
+ * back to the instance options.
+ */
+export interface KawarpLoadOptions {
+  fit?: KawarpFit;
+  focalPoint?: [number, number];
+  crop?: KawarpCrop | null;
+  transition?: KawarpTransition;
+  transitionEasing?: KawarpEasing;
+  transitionDuration?: number;
+}
+
+/**
+ * Options for loadVideo. The load options apply to the transition into the
+ * video.
+ */
+export interface KawarpVideoOptions extends KawarpLoadOptions {
+  /** Most frames per second re-blurred from the video (1-60) */
+  fps?: number;
+}
+
+/** Blur applied to the source image */
+export type KawarpBlurAlgorithm = "kawase" | "dual-kawase" | "gaussian";
+
+/** Rendering backend picked for an instance */
+export type KawarpBackend = "webgpu" | "webgl2" | "webgl" | "cpu";
+
+/** Backend requested at construction; "webgl" covers both WebGL2 and WebGL1 */
+export type KawarpBackendPreference = "auto" | "webgpu" | "webgl" | "cpu";
+
+/**
+ * Options only accepted at construction time
+ */
+export interface KawarpInitOptions extends KawarpOptions {
+  /** Rendering backend (default: "auto") */
+  backend?: KawarpBackendPreference;
+  /** WebGPU device to render with, shared with the rest of the app */
+  device?: GPUDevice;
+}
+
+/** Point in the pipeline where a custom pass runs */
+export type KawarpPassStage = "afterBlur" | "afterWarp" | "beforeOutput";
+
+/** Value of a custom pass uniform: a float, vec2, vec3 or vec4 */
+export type KawarpUniformValue =
+  | number
+  | [number, number]
+  | [number, number, number]
+  | [number, number, number, number];
+
+export type KawarpUniforms = Record<string, KawarpUniformValue>;
+
+/**
+ * A custom fragment-shader pass.
+ *
+ * `fragment` is GLSL ES 1.00 source starting with a precision statement. It
+ * reads the previous result from `u_texture` at `v_texCoord` and can declare
+ * `u_resolution` (vec2) and `u_time` (float), which are set automatically.
+ *
+ * - `afterBlur` runs at blur resolution whenever the image is re-blurred
+ * - `afterWarp` runs at full resolution on the warped image
+ * - `beforeOutput` runs at full resolution after every `afterWarp` pass,
+ *   right before vignette, saturation and dithering
+ */
+export interface KawarpPassOptions<U extends KawarpUniforms = KawarpUniforms> {
+  stage: KawarpPassStage;
+  fragment: string;
+  /** Initial uniform values */
+  uniforms?: U;
+}
+
+/**
+ * Handle to a registered pass
+ */
+export interface KawarpPass<U extends KawarpUniforms = KawarpUniforms> {
+  readonly stage: KawarpPassStage;
+  setUniform<K extends keyof U & string>(name: K, value: U[K]): void;
+  /** Unregister the pass and free its program */
+  remove(): void;
+}
+
+/**
+ * Events emitted by a Kawarp instance, mapped to their listener signatures
+ */
+export interface KawarpEvents {
+  /** The WebGL context was lost, rendering is paused until it is restored */
+  contextlost: () => void;
+  /** The context was restored and every resource rebuilt */
+  contextrestored: () => void;
+  /** Every video track of the stream passed to loadStream ended */
+  streamend: () => void;
+  /** A new source was loaded, with its palette. Not emitted on WebGPU. */
+  palettechange: (palette: KawarpPalette) => void;
+  /** The connected audio jumped above its recent energy, like a beat */
+  onset: (strength: number) => void;
+}
+
+export interface KawarpPulseOptions {
+  /** Milliseconds for the pulse to fall to about a third (default 400) */
+  decay?: number;
+}
+
+export interface KawarpTempoOptions extends KawarpPulseOptions {
+  /** Render clock time of any beat, in ms (default: now) */
+  phase?: number;
+  /** Strength of each beat's pulse (default 1) */
+  strength?: number;
+}
+
+/**
+ * What connectAudio reads. An AnalyserNode fits, and so does a stub that
+ * fills the array with test data.
+ */
+export interface KawarpAudioSource {
+  readonly frequencyBinCount: number;
+  readonly context: { readonly sampleRate: number };
+  getByteFrequencyData(array: Uint8Array): void;
+}
+
+/**
+ * Smoothed audio levels in 0-1. `onset` jumps to 1 on each onset and
+ * decays at the release rate.
+ */
+export type KawarpAudioBand = "bass" | "mid" | "treble" | "energy" | "onset";
+
+/** Options the audio can modulate */
+export type KawarpAudioTarget =
+  | "warpIntensity"
+  | "animationSpeed"
+  | "scale"
+  | "saturation";
+
+export interface KawarpAudioModulation {
+  /** Level driving the option */
+  band: KawarpAudioBand;
+  /** Option value at silence and at full level */
+  range: [number, number];
+}
+
+export interface KawarpAudioMapping
+  extends Partial<Record<KawarpAudioTarget, KawarpAudioModulation>> {
+  /** Milliseconds for a rising level to close most of the gap (default 30) */
+  attack?: number;
+  /** Milliseconds for a falling level to close most of the gap (default 250) */
+  release?: number;
+  /** Band edges in Hz, bass below the first and treble above the second */
+  crossover?: [number, number];
+  /** Ratio of energy to its recent average that counts as an onset (default 1.5) */
+  onsetThreshold?: number;
+}
+
+/**
+ * Colors of the current image, as RGB in 0-1
+ */
+export interface KawarpPalette {
+  /** Most common color */
+  dominant: [number, number, number];
+  /** Most saturated color other than the dominant one */
+  accent: [number, number, number];
+  /** Every extracted color, most common first */
+  colors: [number, number, number][];
+}
+
+export interface KawarpPaletteOptions {
+  /** Number of colors to extract (1-16) */
+  count?: number;
+}
+
+/**
+ * RGBA pixels of a rendered frame, rows top to bottom
+ */
+export interface KawarpPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Stand-in shown until the live renderer draws, as generated at build time by
+ * @kawarp/placeholder
+ */
+export interface KawarpPlaceholder {
+  /** Tiny pre-rendered frame, usually a data URI */
+  src?: string;
+  /** CSS background of gradients approximating the frame, drawn under `src` */
+  gradient?: string;
+}
+
+export interface KawarpSnapshotOptions {
+  /** Width in pixels (default: canvas width) */
+  width?: number;
+  /** Height in pixels (default: canvas height) */
+  height?: number;
+  /** Image format as a MIME type (default "image/png") */
+  type?: string;
+  /** Quality of lossy formats (0-1) */
+  quality?: number;
+}
+
+export interface KawarpRecordOptions {
+  /** Length of the clip in ms */
+  duration: number;
+  /** Frames per second (default 30) */
+  fps?: number;
+  /** Container and codec, like "video/webm;codecs=vp9" (default: browser's choice) */
+  mimeType?: string;
+  /** Run the animation out and back so the clip loops seamlessly */
+  loop?: boolean;
+}
@@ -0,0 +1,211 @@
+import type {
+  KawarpCanvas,
+  KawarpCrop,
+  KawarpFit,
+  KawarpPixels,
+} from "./types.js";
+
+/**
+ * Intrinsic pixel size of an image source
+ */
+export function getSourceSize(source: TexImageSource): [number, number] {
+  if ("naturalWidth" in source) {
+    return [source.naturalWidth, source.naturalHeight];
+  }
+  if ("videoWidth" in source) {
+    return [source.videoWidth, source.videoHeight];
+  }
+  if ("displayWidth" in source) {
+    return [source.displayWidth, source.displayHeight];
+  }
+  return [source.width, source.height];
+}
+
+/**
+ * Scale a size down, keeping its aspect ratio, so neither side exceeds
+ * `maxSize`
+ */
+export function clampSize(
+  width: number,
+  height: number,
+  maxSize: number,
+): [number, number] {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return [
+    Math.max(1, Math.round(width * scale)),
+    Math.max(1, Math.round(height * scale)),
+  ];
+}
+
+/**
+ * Draw an image source into a new canvas of the given size, with the
+ * browser's high-quality downscaling
+ */
+export function resizeSource(
+  source: TexImageSource,
+  width: number,
+  height: number,
+): KawarpCanvas {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas?.getContext("2d") as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null
+    | undefined;
+  if (!canvas || !ctx) {
+    throw new Error("Canvas2D is needed to downscale image sources");
+  }
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source as CanvasImageSource, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Box-filter RGBA pixels down to the given size: every output pixel averages
+ * the block of input pixels it covers
+ */
+export function resizePixels(
+  data: ArrayLike<number>,
+  width: number,
+  height: number,
+  newWidth: number,
+  newHeight: number,
+): Uint8Array {
+  const output = new Uint8Array(newWidth * newHeight * 4);
+  const scaleX = width / newWidth;
+  const scaleY = height / newHeight;
+
+  let i = 0;
+  for (let y = 0; y < newHeight; y++) {
+    const y0 = Math.floor(y * scaleY);
+    const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+    for (let x = 0; x < newWidth; x++) {
+      const x0 = Math.floor(x * scaleX);
+      const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        let j = (sy * width + x0) * 4;
+        for (let sx = x0; sx < x1; sx++) {
+          r += data[j]!;
+          g += data[j + 1]!;
+          b += data[j + 2]!;
+          a += data[j + 3]!;
+          j += 4;
+        }
+      }
+      const count = (x1 - x0) * (y1 - y0);
+      output[i] = Math.round(r / count);
+      output[i + 1] = Math.round(g / count);
+      output[i + 2] = Math.round(b / count);
+      output[i + 3] = Math.round(a / count);
+      i += 4;
+    }
+  }
+  return output;
+}
+
+/**
+ * Region of the source to sample for a target aspect ratio, in source UVs.
+ * `rect` is [x, y, width, height]; `bounds` is the crop as [x0, y0, x1, y1],
+ * which samples outside of it are clamped to.
+ */
+export function fitSource(
+  [sourceWidth, sourceHeight]: [number, number],
+  aspect: number,
+  fit: KawarpFit,
+  [focusX, focusY]: [number, number],
+  crop: KawarpCrop | null,
+): {
+  rect: [number, number, number, number];
+  bounds: [number, number, number, number];
+} {
+  const width = Math.max(1, sourceWidth);
+  const height = Math.max(1, sourceHeight);
+
+  // Crop in pixels, kept inside the source
+  const x0 = Math.max(0, Math.min(width - 1, crop?.x ?? 0));
+  const y0 = Math.max(0, Math.min(height - 1, crop?.y ?? 0));
+  const x1 = Math.max(x0 + 1, Math.min(width, x0 + (crop?.width ?? width)));
+  const y1 = Math.max(y0 + 1, Math.min(height, y0 + (crop?.height ?? height)));
+
+  let regionWidth = x1 - x0;
+  let regionHeight = y1 - y0;
+  if (fit !== "stretch" && aspect > 0) {
+    // Cover shrinks the region to the target aspect, contain grows it
+    const wider = regionWidth / regionHeight > aspect;
+    if (wider === (fit === "cover")) {
+      regionWidth = regionHeight * aspect;
+    } else {
+      regionHeight = regionWidth / aspect;
+    }
+  }
+
+  // Center the region on the focal point, then move it back over the crop
+  const place = (focus: number, size: number, start: number, end: number) => {
+    const low = Math.min(start, end - size);
+    const high = Math.max(start, end - size);
+    return Math.max(low, Math.min(high, focus - size / 2));
+  };
+  const x = place(focusX * width, regionWidth, x0, x1);
+  const y = place(focusY * height, regionHeight, y0, y1);
+
+  return {
+    rect: [x / width, y / height, regionWidth / width, regionHeight / height],
+    bounds: [x0 / width, y0 / height, x1 / width, y1 / height],
+  };
+}
+
+/**
+ * Create a 2D-capable canvas: a DOM canvas on the main thread, an
+ * OffscreenCanvas in workers. Returns null where neither is available
+ * (Node without a DOM).
+ */
+export function createCanvas(
+  width: number,
+  height: number,
+): KawarpCanvas | null {
+  if (typeof document !== "undefined") {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height);
+  }
+  return null;
+}
+
+/**
+ * Encode RGBA pixels as an image file through Canvas2D
+ */
+export function encodePixels(
+  pixels: KawarpPixels,
+  type: string,
+  quality?: number,
+): Promise<Blob> {
+  const canvas = createCanvas(pixels.width, pixels.height);
+  const ctx = canvas?.getContext("2d") as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null
+    | undefined;
+  if (!canvas || !ctx) throw new Error("Canvas2D is needed to encode images");
+  const image = ctx.createImageData(pixels.width, pixels.height);
+  image.data.set(pixels.data);
+  ctx.putImageData(image, 0, 0);
+
+  if ("convertToBlob" in canvas) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) =>
+        blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+      type,
+      quality,
+    );
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Worker side of Kawarp's worker mode.
+ *
+ * Call `exposeKawarp()` from a worker script, then create a `KawarpProxy`
+ * with that worker on the main thread.
+ */
+
+import { Kawarp } from "./index.js";
+import type { WorkerRequest, WorkerResponse } from "./proxy.js";
+import type { KawarpEvents } from "./types.js";
+
+interface WorkerScope {
+  addEventListener(
+    type: "message",
+    listener: (event: MessageEvent) => void,
+  ): void;
+  postMessage(message: WorkerResponse): void;
+}
+
+/**
+ * Listen for messages from a `KawarpProxy` and drive a Kawarp instance
+ * rendering into the transferred canvas.
+ */
+export function exposeKawarp(
+  scope: WorkerScope = self as unknown as WorkerScope,
+): void {
+  let canvas: OffscreenCanvas | null = null;
+  let kawarp: Promise<Kawarp> | null = null;
+
+  // Events the proxy listens to, and how to stop forwarding each
+  const forwarded = new Map<keyof KawarpEvents, () => void>();
+
+  scope.addEventListener("message", async (event: MessageEvent) => {
+    const message = event.data as WorkerRequest;
+
+    // Awaited like calls, so they take effect in the order they were sent
+    if (message.type === "subscribe" || message.type === "unsubscribe") {
+      const name = message.event;
+      let instance: Kawarp | null;
+      try {
+        instance = await kawarp;
+      } catch {
+        // The failed init was already reported
+        return;
+      }
+      if (message.type === "unsubscribe") {
+        forwarded.get(name)?.();
+        forwarded.delete(name);
+      } else if (instance && !forwarded.has(name)) {
+        const forward = (...args: unknown[]) =>
+          scope.postMessage({ type: "event", event: name, args });
+        forwarded.set(name, instance.on(name, forward as never));
+      }
+      return;
+    }
+
+    if (message.type === "init") {
+      canvas = message.canvas;
+      kawarp = Kawarp.create(canvas, message.options);
+      try {
+        const instance = await kawarp;
+        scope.postMessage({ type: "ready", backend: instance.backend });
+      } catch (error) {
+        scope.postMessage({ type: "error", message: errorMessage(error) });
+      }
+      return;
+    }
+
+    const { id } = message;
+    try {
+      if (!kawarp || !canvas) throw new Error("Kawarp worker not initialized");
+      const instance = await kawarp;
+      let value: unknown;
+
+      switch (message.method) {
+        case "loadImage":
+          await instance.loadImage(...message.args);
+          break;
+        case "loadBlob":
+          await instance.loadBlob(...message.args);
+          break;
+        case "loadImageData":
+          instance.loadImageData(...message.args);
+          break;
+        case "loadGradient":
+          instance.loadGradient(...message.args);
+          break;
+        case "setOptions":
+          instance.setOptions(...message.args);
+          break;
+        case "getOptions":
+          value = instance.getOptions();
+          break;
+        case "getPalette":
+          value = instance.getPalette(...message.args);
+          break;
+        case "getBlurredImageData":
+          value = instance.getBlurredImageData();
+          break;
+        case "snapshot":
+          value = await instance.snapshot(...message.args);
+          break;
+        case "start":
+          instance.start();
+          break;
+        case "stop":
+          instance.stop();
+          break;
+        case "resize": {
+          const [width, height] = message.args;
+          canvas.width = width;
+          canvas.height = height;
+          instance.resize();
+          break;
+        }
+        case "renderFrame":
+          instance.renderFrame(...message.args);
+          break;
+        case "seek":
+          instance.seek(...message.args);
+          break;
+        case "pulse":
+          instance.pulse(...message.args);
+          break;
+        case "setTempo":
+          instance.setTempo(...message.args);
+          break;
+        case "dispose":
+          instance.dispose();
+          forwarded.clear();
+          kawarp = null;
+          canvas = null;
+          break;
+      }
+
+      scope.postMessage({ type: "result", id, value });
+    } catch (error) {
+      scope.postMessage({ type: "error", id, message: errorMessage(error) });
+    }
+  });
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
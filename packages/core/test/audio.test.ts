@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AudioReactor } from "../src/audio.js";
+import type { KawarpAudioSource } from "../src/types.js";
+
+// Eight bins of 125 Hz, filled from `spectrum` on every read
+function stubAnalyser(spectrum: number[]): KawarpAudioSource {
+  return {
+    frequencyBinCount: 8,
+    context: { sampleRate: 2000 },
+    getByteFrequencyData(array) {
+      array.set(spectrum);
+    },
+  };
+}
+
+describe("AudioReactor", () => {
+  it("maps a band level onto the option range", () => {
+    const spectrum = [255, 255, 0, 0, 0, 0, 0, 0];
+    const audio = new AudioReactor(stubAnalyser(spectrum), {
+      warpIntensity: { band: "bass", range: [0.2, 1] },
+      saturation: { band: "treble", range: [1, 2] },
+      crossover: [250, 500],
+      attack: 0,
+      release: 0,
+    });
+    audio.update(0);
+    assert.equal(audio.modulate("warpIntensity", 0.5), 1);
+    assert.equal(audio.modulate("saturation", 1.5), 1);
+  });
+
+  it("leaves options without a mapping alone", () => {
+    const audio = new AudioReactor(stubAnalyser(new Array(8).fill(255)), {});
+    audio.update(0);
+    assert.equal(audio.modulate("scale", 1.25), 1.25);
+  });
+
+  it("smooths levels with the attack time", () => {
+    const spectrum = new Array(8).fill(0);
+    const audio = new AudioReactor(stubAnalyser(spectrum), {
+      scale: { band: "energy", range: [0, 1] },
+      attack: 100,
+    });
+    audio.update(0);
+    spectrum.fill(255);
+    audio.update(100);
+    assert.ok(Math.abs(audio.modulate("scale", 0) - (1 - Math.exp(-1))) < 1e-9);
+  });
+
+  it("detects onsets once per jump in energy", () => {
+    const spectrum = new Array(8).fill(0);
+    const audio = new AudioReactor(stubAnalyser(spectrum), {
+      scale: { band: "onset", range: [1, 2] },
+    });
+    assert.equal(audio.update(0), 0);
+    spectrum.fill(200);
+    assert.ok(audio.update(200) > 1.5);
+    assert.equal(audio.modulate("scale", 1), 2);
+    assert.equal(audio.update(250), 0);
+  });
+});
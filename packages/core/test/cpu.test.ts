@@ -0,0 +1,205 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Kawarp } from "../src/index.js";
+import type { KawarpOptions } from "../src/types.js";
+
+// Diagonal gradient, so fitting, blur and warp all show in the output
+function gradient(size: number): Uint8Array {
+  const data = new Uint8Array(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const i = (y * size + x) * 4;
+      data[i] = (x * 255) / size;
+      data[i + 1] = (y * 255) / size;
+      data[i + 2] = 128;
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+function createKawarp(
+  source: Uint8Array,
+  size: number,
+  options: KawarpOptions = {},
+  canvas = { width: 96, height: 54 },
+): Kawarp {
+  const kawarp = new Kawarp(canvas, { ...options, backend: "cpu" });
+  kawarp.loadImageData(source, size, size, { transitionDuration: 0 });
+  return kawarp;
+}
+
+describe("CPU renderer", () => {
+  it("draws the same pixels for the same input and time", () => {
+    const source = gradient(64);
+    const first = createKawarp(source, 64);
+    first.setTimeSource(() => 1000);
+    first.renderFrame(12.5);
+    // A different wall clock must not show in the frame
+    const second = createKawarp(source, 64);
+    second.setTimeSource(() => 250000);
+    second.renderFrame(12.5);
+
+    assert.deepEqual(
+      first.readPixels({ width: 320, height: 180 }),
+      second.readPixels({ width: 320, height: 180 }),
+    );
+  });
+
+  it("renders a seek on a fixed clock at the sought time", () => {
+    const source = gradient(64);
+    const reference = createKawarp(source, 64);
+    reference.setTimeSource(() => 250000);
+    reference.renderFrame(12.5);
+
+    const sought = createKawarp(source, 64);
+    sought.setTimeSource(() => 1000);
+    sought.seek(12.5);
+    sought.renderFrame();
+
+    assert.deepEqual(sought.readPixels(), reference.readPixels());
+  });
+
+  it("fits the image to the aspect ratio pixels are read at", () => {
+    const source = gradient(64);
+    const wide = createKawarp(source, 64);
+    wide.renderFrame(4);
+    const square = createKawarp(source, 64, {}, { width: 60, height: 60 });
+    square.renderFrame(4);
+    const canvas = wide.readPixels({ width: 192, height: 108 });
+
+    assert.deepEqual(
+      wide.readPixels({ width: 120, height: 120 }),
+      square.readPixels({ width: 120, height: 120 }),
+    );
+    // The canvas keeps the fitting for its own aspect ratio
+    assert.deepEqual(wide.readPixels({ width: 192, height: 108 }), canvas);
+  });
+
+  it("reads the blurred source without a DOM", () => {
+    const kawarp = createKawarp(gradient(64), 64, { blurResolution: 32 });
+
+    const { width, height, data } = kawarp.getBlurredImageData();
+    assert.equal(width, 32);
+    assert.equal(height, 32);
+    assert.equal(data.length, 32 * 32 * 4);
+  });
+
+  it("keeps a flat source flat", () => {
+    const source = new Uint8Array(16 * 16 * 4).fill(160);
+    const kawarp = createKawarp(source, 16, {
+      saturation: 1,
+      tintIntensity: 0,
+      dithering: 0,
+      vignetteIntensity: 0,
+    });
+    kawarp.renderFrame(3);
+
+    const { width, height, data } = kawarp.readPixels();
+    assert.equal(data.length, width * height * 4);
+    for (let i = 0; i < data.length; i += 4) {
+      assert.deepEqual([...data.subarray(i, i + 4)], [160, 160, 160, 160]);
+    }
+  });
+});
+
+describe("Transitions", () => {
+  it("starts an interrupting transition from the frame on screen", () => {
+    let now = 0;
+    const kawarp = new Kawarp({ width: 96, height: 54 }, { backend: "cpu" });
+    kawarp.setTimeSource(() => now);
+    kawarp.loadImageData(new Uint8Array(16 * 16 * 4).fill(40), 16, 16, {
+      transitionDuration: 0,
+    });
+    kawarp.renderFrame(4);
+    const first = kawarp.readPixels();
+    kawarp.loadImageData(new Uint8Array(16 * 16 * 4).fill(220), 16, 16, {
+      transitionDuration: 1000,
+    });
+
+    now = 500;
+    kawarp.renderFrame(4);
+    const halfway = kawarp.readPixels();
+    kawarp.loadImageData(gradient(64), 64, 64, { transitionDuration: 1000 });
+    kawarp.renderFrame(4);
+
+    assert.notDeepEqual(halfway, first);
+    assert.deepEqual(kawarp.readPixels(), halfway);
+  });
+});
+
+describe("Option tweens", () => {
+  it("tweens setOptions from the frame on screen to the exact values", () => {
+    const target: KawarpOptions = {
+      saturation: 2,
+      vignetteIntensity: 0.8,
+      vignetteColor: [0.4, 0.1, 0],
+    };
+    let now = 0;
+    const kawarp = createKawarp(gradient(64), 64);
+    kawarp.setTimeSource(() => now);
+    kawarp.renderFrame(4);
+    const before = kawarp.readPixels();
+    kawarp.setOptions(target, { duration: 1000 });
+    kawarp.renderFrame(4);
+    assert.deepEqual(kawarp.readPixels(), before);
+
+    now = 500;
+    kawarp.renderFrame(4);
+    const halfway = kawarp.readPixels();
+    now = 1000;
+    kawarp.renderFrame(4);
+    const reference = createKawarp(gradient(64), 64, target);
+    reference.renderFrame(4);
+
+    assert.notDeepEqual(halfway, before);
+    assert.notDeepEqual(halfway, reference.readPixels());
+    assert.deepEqual(kawarp.readPixels(), reference.readPixels());
+    assert.equal(kawarp.vignetteIntensity, 0.8);
+    assert.deepEqual(kawarp.vignetteColor, [0.4, 0.1, 0]);
+  });
+});
+
+describe("Motion", () => {
+  it("draws no warp in reduced motion", () => {
+    const source = gradient(64);
+    const reduced = createKawarp(source, 64, { motion: "reduced" });
+    reduced.renderFrame(4);
+    const unwarped = createKawarp(source, 64, { warpIntensity: 0 });
+    unwarped.renderFrame(4);
+    const full = createKawarp(source, 64, { motion: "full" });
+    full.renderFrame(4);
+
+    assert.deepEqual(reduced.readPixels(), unwarped.readPixels());
+    assert.notDeepEqual(full.readPixels(), unwarped.readPixels());
+  });
+
+  it("parks the render loop without motion until something changes", () => {
+    const frames: FrameRequestCallback[] = [];
+    globalThis.requestAnimationFrame = (callback) => frames.push(callback);
+    globalThis.cancelAnimationFrame = () => {};
+    try {
+      let now = 0;
+      const kawarp = createKawarp(gradient(64), 64, { motion: "none" });
+      kawarp.setTimeSource(() => now);
+      kawarp.start();
+      assert.equal(frames.length, 1);
+
+      now += 100;
+      frames.shift()?.(now);
+      assert.equal(frames.length, 0);
+
+      kawarp.seed = 3;
+      assert.equal(frames.length, 1);
+      now += 100;
+      frames.shift()?.(now);
+      assert.equal(frames.length, 0);
+      kawarp.stop();
+    } finally {
+      // @ts-expect-error Node has no animation frames
+      delete globalThis.requestAnimationFrame;
+      // @ts-expect-error Node has no animation frames
+      delete globalThis.cancelAnimationFrame;
+    }
+  });
+});
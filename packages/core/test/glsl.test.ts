@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toGLSL300 } from "../src/shaders/glsl.js";
+
+describe("toGLSL300", () => {
+  it("declares the output after the precision statement", () => {
+    const shader = toGLSL300(
+      "precision mediump float;\nvoid main() { gl_FragColor = vec4(1.0); }",
+      "fragment",
+    );
+    assert.equal(
+      shader,
+      "#version 300 es\nprecision mediump float;\n  out vec4 fragColor;\nvoid main() { fragColor = vec4(1.0); }",
+    );
+  });
+
+  it("adds a default precision to fragment shaders without one", () => {
+    const shader = toGLSL300(
+      "varying vec2 v_uv;\nvoid main() { gl_FragColor = vec4(v_uv, 0.0, 1.0); }",
+      "fragment",
+    );
+    assert.equal(
+      shader,
+      "#version 300 es\nprecision highp float;\nout vec4 fragColor;\nin vec2 v_uv;\nvoid main() { fragColor = vec4(v_uv, 0.0, 1.0); }",
+    );
+  });
+
+  it("turns vertex attributes and varyings into ins and outs", () => {
+    assert.equal(
+      toGLSL300("attribute vec2 a;\nvarying vec2 v;", "vertex"),
+      "#version 300 es\nin vec2 a;\nout vec2 v;",
+    );
+  });
+});
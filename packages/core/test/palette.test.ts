@@ -0,0 +1,47 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { extractPalette } from "../src/palette.js";
+
+// RGBA pixels of `colors`, each repeated its count of times
+function pixels(...colors: [[number, number, number], number][]): number[] {
+  return colors.flatMap(([color, count]) =>
+    Array.from({ length: count }, () => [...color, 255]).flat(),
+  );
+}
+
+describe("extractPalette", () => {
+  it("ranks colors by how much of the image they cover", () => {
+    const palette = extractPalette(
+      pixels([[255, 0, 0], 30], [[0, 0, 255], 70]),
+      5,
+    );
+    assert.deepEqual(palette.dominant, [0, 0, 1]);
+    assert.deepEqual(palette.colors, [
+      [0, 0, 1],
+      [1, 0, 0],
+    ]);
+  });
+
+  it("keeps a small share of a third color apart", () => {
+    const palette = extractPalette(
+      pixels([[255, 255, 255], 10], [[0, 0, 0], 60], [[0, 255, 0], 30]),
+      3,
+    );
+    assert.deepEqual(palette.colors, [
+      [0, 0, 0],
+      [0, 1, 0],
+      [1, 1, 1],
+    ]);
+  });
+
+  it("picks the most saturated other color as the accent", () => {
+    const palette = extractPalette(
+      pixels([[128, 128, 128], 60], [[230, 40, 40], 20], [[200, 200, 200], 20]),
+      3,
+    );
+    assert.deepEqual(
+      palette.accent.map((c) => Math.round(c * 255)),
+      [230, 40, 40],
+    );
+  });
+});
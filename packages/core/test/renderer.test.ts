@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  gaussianPasses,
+  kawaseSigma,
+  MAX_GAUSSIAN_SIGMA,
+  pickSourceLevel,
+  sourceLevelSizes,
+  transitionMode,
+} from "../src/renderers/renderer.js";
+
+describe("sourceLevelSizes", () => {
+  it("halves down to 32 texels on the long side", () => {
+    assert.deepEqual(sourceLevelSizes(256, 128), [
+      [128, 64],
+      [64, 32],
+      [32, 16],
+    ]);
+  });
+
+  it("rounds odd sizes up", () => {
+    assert.deepEqual(sourceLevelSizes(65, 33), [
+      [33, 17],
+      [17, 9],
+    ]);
+  });
+
+  it("has no levels for small sources", () => {
+    assert.deepEqual(sourceLevelSizes(32, 20), []);
+  });
+});
+
+describe("pickSourceLevel", () => {
+  const sizes: [number, number][] = [[256, 128], ...sourceLevelSizes(256, 128)];
+
+  it("keeps a texel for every blur texel", () => {
+    assert.equal(pickSourceLevel(sizes, [0, 0, 1, 1], 128), 0);
+    assert.equal(pickSourceLevel(sizes, [0, 0, 1, 1], 32), 2);
+  });
+
+  it("picks a larger level for a cropped region", () => {
+    assert.equal(pickSourceLevel(sizes, [0, 0, 0.5, 0.5], 32), 1);
+  });
+});
+
+describe("gaussianPasses", () => {
+  it("matches the Kawase blur strength", () => {
+    const { sigma, iterations } = gaussianPasses(8, 128);
+    assert.ok(Math.abs(sigma * Math.sqrt(iterations) - kawaseSigma(8)) < 1e-9);
+  });
+
+  it("keeps each pass within the shader's taps", () => {
+    for (let passes = 1; passes <= 40; passes++) {
+      const { sigma, iterations } = gaussianPasses(passes, 1024);
+      assert.ok(iterations >= 1 && iterations <= 4);
+      if (iterations < 4) assert.ok(sigma <= MAX_GAUSSIAN_SIGMA);
+    }
+  });
+
+  it("caps the blur at a quarter of the resolution", () => {
+    const { sigma, iterations } = gaussianPasses(40, 32);
+    assert.ok(Math.abs(sigma * Math.sqrt(iterations) - 8) < 1e-9);
+  });
+});
+
+describe("transitionMode", () => {
+  it("maps wipes to a direction in album UVs", () => {
+    assert.deepEqual(transitionMode("wipe-left"), [1, -1, 0]);
+    assert.deepEqual(transitionMode("wipe-up"), [1, 0, 1]);
+  });
+
+  it("maps the other styles to their shader mode", () => {
+    assert.deepEqual(transitionMode("crossfade"), [0, 0, 0]);
+    assert.deepEqual(transitionMode("radial"), [2, 0, 0]);
+    assert.deepEqual(transitionMode("dissolve"), [3, 0, 0]);
+    assert.deepEqual(transitionMode("warp-through"), [0, 0, 0]);
+  });
+});
@@ -0,0 +1,5 @@
+/** Placeholder generated for an image imported with `?kawarp` */
+declare module "*?kawarp" {
+  const placeholder: import("@kawarp/core").KawarpPlaceholder;
+  export default placeholder;
+}
@@ -0,0 +1,103 @@
+import {
+  Kawarp,
+  type KawarpOptions,
+  type KawarpPixels,
+  type KawarpPlaceholder,
+} from "@kawarp/core";
+import sharp from "sharp";
+
+export type { KawarpPlaceholder } from "@kawarp/core";
+
+type Sum = [r: number, g: number, b: number, count: number];
+
+// Positions of the quadrant gradients, in the order quadrants are summed
+const CORNERS = ["0% 0%", "100% 0%", "0% 100%", "100% 100%"];
+
+export interface PlaceholderOptions extends KawarpOptions {
+  /** Width and height of the pre-rendered frame in pixels (default 32) */
+  size?: number;
+  /** Animation time of the frame in seconds (default 0) */
+  time?: number;
+}
+
+/**
+ * Render a tiny frame of `input` with the software renderer, as a WebP data
+ * URI and a CSS gradient of its four quadrants. Pass the same options as the
+ * live component so the handover is seamless.
+ */
+export async function generatePlaceholder(
+  input: string | Buffer,
+  { size = 32, time = 0, ...options }: PlaceholderOptions = {},
+): Promise<KawarpPlaceholder> {
+  const { data, info } = await sharp(input)
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  // Without a DOM, the CPU backend keeps frames in memory
+  const side = Math.max(2, Math.round(size));
+  const kawarp = new Kawarp(
+    { width: side, height: side },
+    { ...options, backend: "cpu" },
+  );
+  kawarp.loadImageData(data, info.width, info.height, {
+    transitionDuration: 0,
+  });
+  kawarp.renderFrame(time);
+  const pixels = kawarp.readPixels({ width: side, height: side });
+  kawarp.dispose();
+
+  const image = await sharp(pixels.data, {
+    raw: { width: pixels.width, height: pixels.height, channels: 4 },
+  })
+    .webp({ quality: 60 })
+    .toBuffer();
+  return {
+    src: `data:image/webp;base64,${image.toString("base64")}`,
+    gradient: quadrantGradient(pixels),
+  };
+}
+
+/**
+ * A radial gradient from each corner in that quadrant's average color, over
+ * the average of the whole frame
+ */
+function quadrantGradient({ width, height, data }: KawarpPixels): string {
+  // Red, green and blue totals and the pixel count of each quadrant
+  const sums: Sum[] = [
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+    [0, 0, 0, 0],
+  ];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const quadrant = (y < height / 2 ? 0 : 2) + (x < width / 2 ? 0 : 1);
+      const sum = sums[quadrant] as Sum;
+      const i = (y * width + x) * 4;
+      sum[0] += data[i]!;
+      sum[1] += data[i + 1]!;
+      sum[2] += data[i + 2]!;
+      sum[3]++;
+    }
+  }
+
+  const color = ([r, g, b, count]: Sum) =>
+    `rgb(${Math.round(r / count)} ${Math.round(g / count)} ${Math.round(b / count)})`;
+  const total = sums.reduce<Sum>(
+    (all, sum) => [
+      all[0] + sum[0],
+      all[1] + sum[1],
+      all[2] + sum[2],
+      all[3] + sum[3],
+    ],
+    [0, 0, 0, 0],
+  );
+  return [
+    ...sums.map(
+      (sum, i) =>
+        `radial-gradient(at ${CORNERS[i]}, ${color(sum)}, transparent 70%)`,
+    ),
+    color(total),
+  ].join(", ");
+}
@@ -0,0 +1,89 @@
+import { fileURLToPath } from "node:url";
+import { generatePlaceholder, type PlaceholderOptions } from "./index.js";
+
+const QUERY = /[?&]kawarp(?:&|$)/;
+
+/** The parts of the webpack loader context this loader uses */
+interface LoaderContext {
+  resourcePath: string;
+  async(): (error: Error | null, result?: string) => void;
+  getOptions(): PlaceholderOptions;
+}
+
+/** The parts of a webpack rule `withKawarpPlaceholder` reads */
+interface Rule {
+  test?: unknown;
+  resourceQuery?: unknown;
+}
+
+interface NextConfig {
+  webpack?: ((config: WebpackConfig, context: unknown) => WebpackConfig) | null;
+  [key: string]: unknown;
+}
+
+interface WebpackConfig {
+  module: { rules: unknown[] };
+  [key: string]: unknown;
+}
+
+/**
+ * Webpack loader for Next.js turning `art.jpg?kawarp` imports into a
+ * placeholder generated at build time. Usually set up through
+ * `withKawarpPlaceholder`.
+ */
+export default function kawarpPlaceholderLoader(this: LoaderContext): void {
+  const callback = this.async();
+  generatePlaceholder(this.resourcePath, this.getOptions()).then(
+    (placeholder) =>
+      callback(null, `export default ${JSON.stringify(placeholder)};`),
+    (error: unknown) =>
+      callback(error instanceof Error ? error : new Error(String(error))),
+  );
+}
+
+// The image is read from disk, so skip decoding it as a string
+export const raw = true;
+
+/**
+ * Wrap a Next.js config to load `?kawarp` image imports as placeholders.
+ * Image rules that would also match those imports are told to skip them.
+ * Needs the webpack bundler (`next build --webpack`).
+ *
+ * @example
+ * ```js
+ * // next.config.js
+ * export default withKawarpPlaceholder(nextConfig, { blurPasses: 12 });
+ * ```
+ */
+export function withKawarpPlaceholder<T extends NextConfig>(
+  nextConfig: T,
+  options: PlaceholderOptions = {},
+): T {
+  return {
+    ...nextConfig,
+    webpack(config: WebpackConfig, context: unknown) {
+      for (const rule of config.module.rules) {
+        if (isImageRule(rule)) rule.resourceQuery = skipQuery(rule);
+      }
+      config.module.rules.unshift({
+        resourceQuery: QUERY,
+        type: "javascript/auto",
+        use: [{ loader: fileURLToPath(import.meta.url), options }],
+      });
+      return nextConfig.webpack ? nextConfig.webpack(config, context) : config;
+    },
+  };
+}
+
+function isImageRule(rule: unknown): rule is Rule {
+  if (typeof rule !== "object" || rule === null) return false;
+  const { test } = rule as Rule;
+  return test instanceof RegExp && test.test("image.jpg");
+}
+
+function skipQuery({ resourceQuery }: Rule): unknown {
+  if (resourceQuery === undefined) return { not: [QUERY] };
+  const query = resourceQuery as { not?: unknown };
+  if (Array.isArray(query.not)) return { ...query, not: [...query.not, QUERY] };
+  return { and: [resourceQuery, { not: [QUERY] }] };
+}
@@ -0,0 +1,44 @@
+import { generatePlaceholder, type PlaceholderOptions } from "./index.js";
+
+const QUERY = /[?&]kawarp(?:&|$)/;
+
+/** The parts of a Vite plugin this one uses */
+export interface KawarpVitePlugin {
+  name: string;
+  enforce: "pre";
+  load(
+    this: { addWatchFile(id: string): void },
+    id: string,
+  ): Promise<string | null>;
+}
+
+/**
+ * Vite plugin that turns `import placeholder from "./art.jpg?kawarp"` into a
+ * placeholder generated at build time. Add `@kawarp/placeholder/client` to
+ * `types` for the import's type.
+ *
+ * @example
+ * ```ts
+ * // vite.config.ts
+ * export default defineConfig({
+ *   plugins: [kawarpPlaceholder({ blurPasses: 12 })],
+ * });
+ * ```
+ */
+export function kawarpPlaceholder(
+  options: PlaceholderOptions = {},
+): KawarpVitePlugin {
+  return {
+    name: "kawarp-placeholder",
+    enforce: "pre",
+    async load(id) {
+      if (!QUERY.test(id)) return null;
+      const [file] = id.split("?") as [string];
+      this.addWatchFile(file);
+      const placeholder = await generatePlaceholder(file, options);
+      return `export default ${JSON.stringify(placeholder)};`;
+    },
+  };
+}
+
+export default kawarpPlaceholder;
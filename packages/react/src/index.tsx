@@ -1,4 +1,11 @@
-import { Kawarp as KawarpCore, type KawarpOptions } from "@kawarp/core";
+import {
+  Kawarp as KawarpCore,
+  type KawarpLoadOptions,
+  type KawarpOptions,
+  type KawarpPalette,
+  type KawarpPlaceholder,
+  type KawarpVideoOptions,
+} from "@kawarp/core";
 import {
   type CSSProperties,
   forwardRef,
@@ -8,17 +15,34 @@ import {
   useImperativeHandle,
   useMemo,
   useRef,
+  useState,
 } from "react";
 
-export type { KawarpOptions } from "@kawarp/core";
+export type {
+  KawarpLoadOptions,
+  KawarpOptions,
+  KawarpPalette,
+  KawarpPlaceholder,
+  KawarpVideoOptions,
+} from "@kawarp/core";
 
 export interface KawarpRef {
   /** The underlying Kawarp instance */
   instance: KawarpCore | null;
   /** Load an image from a URL */
-  loadImage: (src: string) => Promise<void>;
+  loadImage: (src: string, options?: KawarpLoadOptions) => Promise<void>;
   /** Load from a Blob or File */
-  loadBlob: (blob: Blob) => Promise<void>;
+  loadBlob: (blob: Blob, options?: KawarpLoadOptions) => Promise<void>;
+  /** Follow a video, re-blurring its frames as it plays */
+  loadVideo: (
+    video: HTMLVideoElement,
+    options?: KawarpVideoOptions,
+  ) => Promise<void>;
+  /** Follow a MediaStream, like a webcam or screen share */
+  loadStream: (
+    stream: MediaStream,
+    options?: KawarpVideoOptions,
+  ) => Promise<void>;
   /** Load colors as a gradient source */
   loadGradient: (colors: string[], angle?: number) => void;
   /** Start the animation */
@@ -36,19 +60,42 @@ export interface KawarpProps extends KawarpOptions {
   src?: string;
   /** Whether to auto-start animation (default: true) */
   autoPlay?: boolean;
+  /**
+   * Shown until `src` is drawn, then crossfaded out over `transitionDuration`.
+   * An image URL, or a placeholder from @kawarp/placeholder.
+   */
+  placeholder?: string | KawarpPlaceholder;
   /** Callback when the image is loaded */
   onLoad?: () => void;
   /** Callback when an error occurs */
   onError?: (error: Error) => void;
+  /** Callback when the WebGL context is lost and rendering pauses */
+  onContextLost?: () => void;
+  /** Callback when the context is restored and rendering resumes */
+  onContextRestored?: () => void;
+  /** Callback when every video track of a loaded stream has ended */
+  onStreamEnd?: () => void;
+  /** Callback with the palette of each newly loaded source (WebGL and CPU) */
+  onPaletteChange?: (palette: KawarpPalette) => void;
 }
 
 export interface UseKawarpReturn {
   /** Ref to pass to the Kawarp component */
   ref: RefObject<KawarpRef | null>;
   /** Load an image from a URL */
-  loadImage: (src: string) => Promise<void>;
+  loadImage: (src: string, options?: KawarpLoadOptions) => Promise<void>;
   /** Load from a Blob or File */
-  loadBlob: (blob: Blob) => Promise<void>;
+  loadBlob: (blob: Blob, options?: KawarpLoadOptions) => Promise<void>;
+  /** Follow a video, re-blurring its frames as it plays */
+  loadVideo: (
+    video: HTMLVideoElement,
+    options?: KawarpVideoOptions,
+  ) => Promise<void>;
+  /** Follow a MediaStream, like a webcam or screen share */
+  loadStream: (
+    stream: MediaStream,
+    options?: KawarpVideoOptions,
+  ) => Promise<void>;
   /** Load colors as a gradient source */
   loadGradient: (colors: string[], angle?: number) => void;
   /** Start the animation */
@@ -74,13 +121,33 @@ export interface UseKawarpReturn {
 export function useKawarp(): UseKawarpReturn {
   const ref = useRef<KawarpRef | null>(null);
 
-  const loadImage = useCallback(async (src: string) => {
-    await ref.current?.loadImage(src);
-  }, []);
+  const loadImage = useCallback(
+    async (src: string, options?: KawarpLoadOptions) => {
+      await ref.current?.loadImage(src, options);
+    },
+    [],
+  );
 
-  const loadBlob = useCallback(async (blob: Blob) => {
-    await ref.current?.loadBlob(blob);
-  }, []);
+  const loadBlob = useCallback(
+    async (blob: Blob, options?: KawarpLoadOptions) => {
+      await ref.current?.loadBlob(blob, options);
+    },
+    [],
+  );
+
+  const loadVideo = useCallback(
+    async (video: HTMLVideoElement, options?: KawarpVideoOptions) => {
+      await ref.current?.loadVideo(video, options);
+    },
+    [],
+  );
+
+  const loadStream = useCallback(
+    async (stream: MediaStream, options?: KawarpVideoOptions) => {
+      await ref.current?.loadStream(stream, options);
+    },
+    [],
+  );
 
   const loadGradient = useCallback((colors: string[], angle?: number) => {
     ref.current?.loadGradient(colors, angle);
@@ -94,7 +161,16 @@ export function useKawarp(): UseKawarpReturn {
     ref.current?.stop();
   }, []);
 
-  return { ref, loadImage, loadBlob, loadGradient, start, stop };
+  return {
+    ref,
+    loadImage,
+    loadBlob,
+    loadVideo,
+    loadStream,
+    loadGradient,
+    start,
+    stop,
+  };
 }
 
 export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
@@ -103,8 +179,13 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
     style,
     src,
     autoPlay = true,
+    placeholder,
     onLoad,
     onError,
+    onContextLost,
+    onContextRestored,
+    onStreamEnd,
+    onPaletteChange,
     warpIntensity,
     blurPasses,
     animationSpeed,
@@ -114,6 +195,21 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
     tintIntensity,
     dithering,
     scale,
+    blurAlgorithm,
+    blurResolution,
+    fit,
+    focalPoint,
+    crop,
+    vignetteIntensity,
+    vignetteRadius,
+    vignetteSoftness,
+    vignetteColor,
+    vignetteShape,
+    vignetteCenter,
+    transition,
+    transitionEasing,
+    seed,
+    motion,
   },
   ref,
 ) {
@@ -122,6 +218,10 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
   const containerRef = useRef<HTMLDivElement>(null);
   const initializedRef = useRef(false);
   const currentSrcRef = useRef<string | undefined>(undefined);
+  // Background of the placeholder shown for the current source
+  const currentPlaceholderRef = useRef<string | undefined>(undefined);
+  // Set once the first source is loaded, fading the placeholder out
+  const [isReady, setIsReady] = useState(false);
 
   // Expose imperative methods
   useImperativeHandle(
@@ -130,14 +230,28 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
       get instance() {
         return kawarpRef.current;
       },
-      loadImage: async (url: string) => {
-        await kawarpRef.current?.loadImage(url);
+      loadImage: async (url: string, options?: KawarpLoadOptions) => {
+        await kawarpRef.current?.loadImage(url, options);
+        setIsReady(true);
+      },
+      loadBlob: async (blob: Blob, options?: KawarpLoadOptions) => {
+        await kawarpRef.current?.loadBlob(blob, options);
+        setIsReady(true);
       },
-      loadBlob: async (blob: Blob) => {
-        await kawarpRef.current?.loadBlob(blob);
+      loadVideo: async (
+        video: HTMLVideoElement,
+        options?: KawarpVideoOptions,
+      ) => {
+        await kawarpRef.current?.loadVideo(video, options);
+        setIsReady(true);
+      },
+      loadStream: async (stream: MediaStream, options?: KawarpVideoOptions) => {
+        await kawarpRef.current?.loadStream(stream, options);
+        setIsReady(true);
       },
       loadGradient: (colors: string[], angle?: number) => {
         kawarpRef.current?.loadGradient(colors, angle);
+        setIsReady(true);
       },
       start: () => {
         kawarpRef.current?.start();
@@ -164,18 +278,43 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
       tintIntensity,
       dithering,
       scale,
+      blurAlgorithm,
+      blurResolution,
+      fit,
+      focalPoint,
+      crop,
+      vignetteIntensity,
+      vignetteRadius,
+      vignetteSoftness,
+      vignetteColor,
+      vignetteShape,
+      vignetteCenter,
+      transition,
+      transitionEasing,
+      seed,
+      motion,
     });
     kawarpRef.current = kawarp;
     initializedRef.current = true;
 
-    // Load initial image if provided
+    // Load initial image if provided. Behind a placeholder it shows at once,
+    // and the placeholder crossfades instead.
     if (src) {
       currentSrcRef.current = src;
+      currentPlaceholderRef.current = placeholder
+        ? placeholderBackground(placeholder)
+        : undefined;
       kawarp
-        .loadImage(src)
+        .loadImage(src, placeholder ? { transitionDuration: 0 } : undefined)
         .then(() => {
           onLoad?.();
-          if (autoPlay) kawarp.start();
+          if (autoPlay) {
+            kawarp.start();
+          } else if (placeholder) {
+            // Something has to replace the placeholder
+            kawarp.renderFrame();
+          }
+          setIsReady(true);
         })
         .catch((error) => {
           onError?.(error instanceof Error ? error : new Error(String(error)));
@@ -200,14 +339,51 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
 
     currentSrcRef.current = src;
     if (src) {
-      kawarpRef.current
-        .loadImage(src)
-        .then(() => onLoad?.())
+      // A new placeholder comes with a new source, so it covers the canvas
+      // again and crossfades out like on mount
+      const background = placeholder
+        ? placeholderBackground(placeholder)
+        : undefined;
+      const covered =
+        background !== undefined &&
+        background !== currentPlaceholderRef.current;
+      currentPlaceholderRef.current = background;
+      if (covered) setIsReady(false);
+
+      const kawarp = kawarpRef.current;
+      kawarp
+        .loadImage(src, covered ? { transitionDuration: 0 } : undefined)
+        .then(() => {
+          onLoad?.();
+          if (covered && !autoPlay) kawarp.renderFrame();
+          setIsReady(true);
+        })
         .catch((error) => {
           onError?.(error instanceof Error ? error : new Error(String(error)));
         });
     }
-  }, [src, onLoad, onError]);
+  }, [src, placeholder, autoPlay, onLoad, onError]);
+
+  // Forward context loss events
+  useEffect(() => {
+    if (!onContextLost) return;
+    return kawarpRef.current?.on("contextlost", onContextLost);
+  }, [onContextLost]);
+
+  useEffect(() => {
+    if (!onContextRestored) return;
+    return kawarpRef.current?.on("contextrestored", onContextRestored);
+  }, [onContextRestored]);
+
+  useEffect(() => {
+    if (!onStreamEnd) return;
+    return kawarpRef.current?.on("streamend", onStreamEnd);
+  }, [onStreamEnd]);
+
+  useEffect(() => {
+    if (!onPaletteChange) return;
+    return kawarpRef.current?.on("palettechange", onPaletteChange);
+  }, [onPaletteChange]);
 
   // Memoize tintColor to prevent unnecessary updates
   const stableTintColor = useMemo(
@@ -216,6 +392,40 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
     [tintColor?.[0], tintColor?.[1], tintColor?.[2]],
   );
 
+  const stableFocalPoint = useMemo(
+    () => focalPoint,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [focalPoint?.[0], focalPoint?.[1]],
+  );
+
+  const stableCrop = useMemo(
+    () => crop,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [crop === null, crop?.x, crop?.y, crop?.width, crop?.height],
+  );
+
+  const stableVignetteColor = useMemo(
+    () => vignetteColor,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [vignetteColor?.[0], vignetteColor?.[1], vignetteColor?.[2]],
+  );
+
+  const stableVignetteCenter = useMemo(
+    () => vignetteCenter,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [vignetteCenter?.[0], vignetteCenter?.[1]],
+  );
+
+  const stableTransitionEasing = useMemo(
+    () => transitionEasing,
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [
+      typeof transitionEasing === "string"
+        ? transitionEasing
+        : transitionEasing?.join(","),
+    ],
+  );
+
   // Update options when props change
   useEffect(() => {
     kawarpRef.current?.setOptions({
@@ -228,6 +438,21 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
       tintIntensity,
       dithering,
       scale,
+      blurAlgorithm,
+      blurResolution,
+      fit,
+      focalPoint: stableFocalPoint,
+      crop: stableCrop,
+      vignetteIntensity,
+      vignetteRadius,
+      vignetteSoftness,
+      vignetteColor: stableVignetteColor,
+      vignetteShape,
+      vignetteCenter: stableVignetteCenter,
+      transition,
+      transitionEasing: stableTransitionEasing,
+      seed,
+      motion,
     });
   }, [
     warpIntensity,
@@ -239,6 +464,21 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
     tintIntensity,
     dithering,
     scale,
+    blurAlgorithm,
+    blurResolution,
+    fit,
+    stableFocalPoint,
+    stableCrop,
+    vignetteIntensity,
+    vignetteRadius,
+    vignetteSoftness,
+    stableVignetteColor,
+    vignetteShape,
+    stableVignetteCenter,
+    transition,
+    stableTransitionEasing,
+    seed,
+    motion,
   ]);
 
   // Handle resize with ResizeObserver (debounced, with devicePixelRatio)
@@ -286,8 +526,39 @@ export const Kawarp = forwardRef<KawarpRef, KawarpProps>(function Kawarp(
           height: "100%",
         }}
       />
+      {placeholder && (
+        <div
+          aria-hidden
+          style={{
+            position: "absolute",
+            inset: 0,
+            background: placeholderBackground(placeholder),
+            opacity: isReady ? 0 : 1,
+            // Shows at once, fades out once the source is drawn
+            transition: isReady
+              ? `opacity ${transitionDuration ?? 1000}ms`
+              : "none",
+            pointerEvents: "none",
+          }}
+        />
+      )}
     </div>
   );
 });
 
+/**
+ * CSS background of a placeholder: the image over its gradient
+ */
+function placeholderBackground(
+  placeholder: string | KawarpPlaceholder,
+): string {
+  const { src, gradient } =
+    typeof placeholder === "string" ? { src: placeholder } : placeholder;
+  // Quotes, backslashes and line breaks would end the CSS string early
+  const url = src?.replace(/["\\\n\r]/g, encodeURIComponent);
+  const layers = url ? [`center / cover no-repeat url("${url}")`] : [];
+  if (gradient) layers.push(gradient);
+  return layers.join(", ");
+}
+
 export default Kawarp;